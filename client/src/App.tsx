@@ -3,13 +3,24 @@ import { Route, Switch } from "wouter";
 import { Toaster } from "./components/ui/toaster";
 import NotFound from "./pages/not-found";
 import Home from "./pages/Home";
+import Auth from "./pages/Auth";
+import Campaigns from "./pages/Campaigns";
+import Roster from "./pages/Roster";
+import Sessions from "./pages/Sessions";
+import Bestiary from "./pages/Bestiary";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
+import { AuthProvider } from "./hooks/use-auth";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/campaigns" component={Campaigns} />
+      <Route path="/campaigns/:id" component={Roster} />
+      <Route path="/sessions" component={Sessions} />
+      <Route path="/bestiary" component={Bestiary} />
+      <Route path="/auth" component={Auth} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +29,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <div className="min-h-screen bg-background">
-        <Router />
-        <Toaster />
-      </div>
+      <AuthProvider>
+        <div className="min-h-screen bg-background">
+          <Router />
+          <Toaster />
+        </div>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
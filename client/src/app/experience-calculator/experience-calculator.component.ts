@@ -5,6 +5,7 @@ import { XpCalculatorService } from '../services/xp-calculator.service';
 import { Character, CharacterFormValue } from '../models/character.model';
 import { Monster, MonsterFormValue } from '../models/monster.model';
 import { CalculationResult, SavedCalculation } from '../models/calculation-result.model';
+import { positiveHitDice } from '../shared/validators/hit-dice.validator';
 
 @Component({
   selector: 'app-experience-calculator',
@@ -43,7 +44,7 @@ export class ExperienceCalculatorComponent implements OnInit {
    */
   createCharacterForm(): FormGroup {
     return this.fb.group({
-      hitDice: [1, [Validators.required, Validators.min(1), Validators.max(20)]],
+      hitDice: [1, [Validators.required, positiveHitDice]],
       modifier: [0, [Validators.required, Validators.min(-3), Validators.max(6)]]
     });
   }
@@ -53,7 +54,7 @@ export class ExperienceCalculatorComponent implements OnInit {
    */
   createMonsterForm(): FormGroup {
     return this.fb.group({
-      hitDice: [1, [Validators.required, Validators.min(1), Validators.max(20)]],
+      hitDice: [1, [Validators.required, positiveHitDice]],
       modifier: [0, [Validators.required, Validators.min(-3), Validators.max(6)]],
       count: [1, [Validators.required, Validators.min(1), Validators.max(100)]]
     });
@@ -200,7 +201,7 @@ export class ExperienceCalculatorComponent implements OnInit {
     // Add characters
     saved.characters.forEach((char: Character) => {
       this.charactersArray.push(this.fb.group({
-        hitDice: [char.hitDice, [Validators.required, Validators.min(1), Validators.max(20)]],
+        hitDice: [char.hitDice, [Validators.required, positiveHitDice]],
         modifier: [char.modifier, [Validators.required, Validators.min(-3), Validators.max(6)]]
       }));
     });
@@ -208,7 +209,7 @@ export class ExperienceCalculatorComponent implements OnInit {
     // Add monsters
     saved.monsters.forEach((monster: Monster) => {
       this.monstersArray.push(this.fb.group({
-        hitDice: [monster.hitDice, [Validators.required, Validators.min(1), Validators.max(20)]],
+        hitDice: [monster.hitDice, [Validators.required, positiveHitDice]],
         modifier: [monster.modifier, [Validators.required, Validators.min(-3), Validators.max(6)]],
         count: [monster.count, [Validators.required, Validators.min(1), Validators.max(100)]]
       }));
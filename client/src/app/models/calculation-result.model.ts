@@ -1,11 +1,6 @@
-export interface CalculationResult {
-  totalPartyHitDice: number;
-  totalMonsterHitDice: number;
-  totalXp: number;
-  xpPerCharacter: number;
-  averagePartyLevel: number;
-  adjustmentFactor: number;
-}
+import type { CalculationResult } from '../../../../shared/calculator';
+
+export type { CalculationResult };
 
 export interface SavedCalculation {
   id: string;
@@ -1,5 +1,11 @@
 import { Component, Input, forwardRef } from '@angular/core';
-import { ControlValueAccessor, NG_VALUE_ACCESSOR, FormGroup, FormControl, Validators } from '@angular/forms';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR, NG_VALIDATORS, Validator, FormGroup, FormControl, Validators, AbstractControl, ValidationErrors } from '@angular/forms';
+import { formatHitDice, parseHitDice } from '../../../../../../shared/calculator';
+import { positiveHitDice } from '../../validators/hit-dice.validator';
+
+// Rejects text that does not read as hit dice notation, e.g. "3+3" or "½"
+const hitDiceNotationValidator = (control: AbstractControl): ValidationErrors | null =>
+  parseHitDice(control.value ?? '') ? null : { notation: true };
 
 @Component({
   selector: 'app-hit-dice-input',
@@ -10,19 +16,29 @@ import { ControlValueAccessor, NG_VALUE_ACCESSOR, FormGroup, FormControl, Valida
       provide: NG_VALUE_ACCESSOR,
       useExisting: forwardRef(() => HitDiceInputComponent),
       multi: true
+    },
+    {
+      provide: NG_VALIDATORS,
+      useExisting: forwardRef(() => HitDiceInputComponent),
+      multi: true
     }
   ]
 })
-export class HitDiceInputComponent implements ControlValueAccessor {
+export class HitDiceInputComponent implements ControlValueAccessor, Validator {
   @Input() label = 'Hit Dice';
   @Input() showCount = false;
+  // One "3+3" style field in place of separate hit dice and modifier
+  @Input() singleField = false;
 
   form: FormGroup;
+  notation = new FormControl('1', [Validators.required, hitDiceNotationValidator]);
   
   constructor() {
     this.form = new FormGroup({
-      hitDice: new FormControl(1, [Validators.required, Validators.min(1), Validators.max(20)]),
+      hitDice: new FormControl(1, [Validators.required, positiveHitDice]),
       modifier: new FormControl(0, [Validators.required, Validators.min(-3), Validators.max(6)]),
+      // Only the single field sets this, from the asterisks in "7**"
+      specialAbilities: new FormControl(0),
       count: new FormControl(1, [Validators.required, Validators.min(1), Validators.max(100)])
     });
     
@@ -30,15 +46,29 @@ export class HitDiceInputComponent implements ControlValueAccessor {
       this.onChange(value);
       this.onTouched();
     });
+
+    this.notation.valueChanges.subscribe(text => {
+      const parsed = parseHitDice(text ?? '');
+      if (parsed) {
+        this.form.patchValue(parsed);
+      } else {
+        // The last readable value is still in the form, so the parent has to
+        // check again to see that it no longer stands
+        this.onValidatorChange();
+      }
+    });
   }
 
   // ControlValueAccessor methods
   onChange: any = () => {};
   onTouched: any = () => {};
+  onValidatorChange: () => void = () => {};
 
   writeValue(value: any): void {
     if (value) {
       this.form.patchValue(value, { emitEvent: false });
+      const { hitDice, modifier, specialAbilities } = this.form.value;
+      this.notation.setValue(formatHitDice(hitDice, modifier, specialAbilities), { emitEvent: false });
     }
   }
 
@@ -50,7 +80,17 @@ export class HitDiceInputComponent implements ControlValueAccessor {
     this.onTouched = fn;
   }
 
+  registerOnValidatorChange(fn: () => void): void {
+    this.onValidatorChange = fn;
+  }
+
+  // Unreadable notation makes the parent control invalid too
+  validate(): ValidationErrors | null {
+    return this.singleField && this.notation.invalid ? { notation: true } : null;
+  }
+
   setDisabledState(isDisabled: boolean): void {
     isDisabled ? this.form.disable() : this.form.enable();
+    isDisabled ? this.notation.disable() : this.notation.enable();
   }
 }
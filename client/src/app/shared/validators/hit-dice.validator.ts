@@ -0,0 +1,8 @@
+import { AbstractControl, ValidationErrors } from '@angular/forms';
+
+// Hit dice can be any positive amount: ½ for a kobold, 1/8 for a 1 hp rat,
+// or well past 20 for the biggest giants and dragons
+export const positiveHitDice = (control: AbstractControl): ValidationErrors | null => {
+  const value = Number(control.value);
+  return value > 0 ? null : { positiveHitDice: true };
+};
@@ -0,0 +1,195 @@
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { Plus, Save, Star, Trash } from "lucide-react";
+import type { ReportInput } from "@shared/export";
+import {
+  buildTemplateContext,
+  defaultClipboardTemplate,
+  renderTemplate,
+  templateFields,
+  type ClipboardTemplate,
+} from "@shared/template";
+import type { Campaign } from "@shared/schema";
+
+// Radix selects cannot hold an empty value, so an unsaved template gets a sentinel
+const NEW_TEMPLATE = "new";
+
+const slugify = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+type ClipboardTemplateEditorProps = {
+  campaign: Campaign;
+  // The current result, filled into the preview as the template is typed
+  report: ReportInput;
+};
+
+// Edit a campaign's clipboard templates side by side with a live preview.
+// New templates start from the default emoji layout.
+export function ClipboardTemplateEditor({ campaign, report }: ClipboardTemplateEditorProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState(campaign.clipboardTemplates[0]?.id ?? NEW_TEMPLATE);
+  const selected = campaign.clipboardTemplates.find((template) => template.id === selectedId);
+  const [name, setName] = useState(selected?.name ?? "");
+  const [body, setBody] = useState(selected?.body ?? defaultClipboardTemplate);
+
+  const preview = renderTemplate(body, buildTemplateContext(report));
+
+  const saveMutation = useMutation({
+    mutationFn: (clipboardTemplates: ClipboardTemplate[]) =>
+      apiRequest("PATCH", `/api/campaigns/${campaign.id}`, { clipboardTemplates }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${campaign.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Could not save the clipboard templates",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectTemplate = (id: string) => {
+    const template = campaign.clipboardTemplates.find((candidate) => candidate.id === id);
+    setSelectedId(id);
+    setName(template?.name ?? "");
+    setBody(template?.body ?? defaultClipboardTemplate);
+  };
+
+  const saveTemplate = () => {
+    // Renaming a saved template keeps its id, so it stays in place in the list
+    const id = selected?.id ?? slugify(name);
+    if (!id || !name.trim()) {
+      toast({ title: "Name Required", description: "Give the template a name", variant: "destructive" });
+      return;
+    }
+    const exists = campaign.clipboardTemplates.some((candidate) => candidate.id === id);
+    if (!selected && exists) {
+      toast({ title: "Name Taken", description: "Another template already has that name", variant: "destructive" });
+      return;
+    }
+    const template = { id, name: name.trim(), body };
+    saveMutation.mutate(
+      exists
+        ? campaign.clipboardTemplates.map((candidate) => (candidate.id === id ? template : candidate))
+        : [...campaign.clipboardTemplates, template],
+      {
+        onSuccess: () => {
+          setSelectedId(id);
+          toast({ title: "Template Saved", description: `"${template.name}" is ready to copy with`, variant: "success" });
+        },
+      },
+    );
+  };
+
+  // The first template is the campaign's default, copied for the Emoji Markdown format
+  const makeDefault = () => {
+    if (!selected) return;
+    saveMutation.mutate([
+      selected,
+      ...campaign.clipboardTemplates.filter((template) => template.id !== selected.id),
+    ]);
+  };
+
+  const removeTemplate = () => {
+    if (!selected) return;
+    saveMutation.mutate(
+      campaign.clipboardTemplates.filter((template) => template.id !== selected.id),
+      { onSuccess: () => selectTemplate(NEW_TEMPLATE) },
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-2">
+        <Select value={selectedId} onValueChange={selectTemplate}>
+          <SelectTrigger className="md:w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {campaign.clipboardTemplates.map((template, index) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+                {index === 0 && " (default)"}
+              </SelectItem>
+            ))}
+            <SelectItem value={NEW_TEMPLATE}>New template…</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="text"
+          placeholder="Template name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Button type="button" variant="outline" onClick={saveTemplate} disabled={saveMutation.isPending}>
+          {selected ? <Save className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+          {selected ? "Save" : "Add"}
+        </Button>
+        {selected && campaign.clipboardTemplates[0]?.id !== selected.id && (
+          <Button type="button" variant="outline" onClick={makeDefault} disabled={saveMutation.isPending}>
+            <Star className="h-4 w-4 mr-2" />
+            Make Default
+          </Button>
+        )}
+        {selected && (
+          <Button type="button" variant="ghost" onClick={removeTemplate} disabled={saveMutation.isPending}>
+            <Trash className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-body">Template</Label>
+          <Textarea
+            id="template-body"
+            className="font-mono text-xs h-96"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Preview</Label>
+          {preview.ok ? (
+            <pre className="h-96 overflow-auto rounded-md border bg-secondary/30 p-3 text-xs whitespace-pre-wrap">
+              {preview.text}
+            </pre>
+          ) : (
+            <p className="h-96 rounded-md border border-destructive p-3 text-sm font-medium text-destructive">
+              {preview.error}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer font-medium">Fields</summary>
+        <p className="mt-2 text-muted-foreground">
+          Write <code>{"{{field}}"}</code> for a value, <code>{"{{#each list}}…{{/each}}"}</code> to loop and{" "}
+          <code>{"{{#if field}}…{{else}}…{{/if}}"}</code> (or <code>#unless</code>) for optional lines.
+        </p>
+        <dl className="mt-2 grid grid-cols-1 md:grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+          {templateFields.map(({ field, description }) => (
+            <React.Fragment key={field}>
+              <dt className="font-mono text-xs">{field}</dt>
+              <dd className="text-muted-foreground">{description}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useState } from "react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Upload } from "lucide-react";
+import {
+  csvFields,
+  guessColumnMapping,
+  importCsvRows,
+  parseCsv,
+  type CsvColumnMapping,
+  type CsvImportKind,
+} from "@shared/csv";
+import type { CalculatorInput } from "@shared/schema";
+
+// Radix selects cannot hold an empty value, so an unmapped field gets a sentinel
+const NO_COLUMN = "none";
+
+const kindNames: Record<CsvImportKind, string> = {
+  characters: "Party",
+  monsters: "Monsters",
+};
+
+export type CsvImportValues =
+  | { kind: "characters"; values: CalculatorInput["characters"] }
+  | { kind: "monsters"; values: CalculatorInput["monsters"] };
+
+type CsvImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Replaces the party or the monster list with the imported rows
+  onImport: (imported: CsvImportValues) => void;
+};
+
+// Paste or upload a spreadsheet, match its columns to the form fields and
+// check every row before anything replaces the form.
+export function CsvImportDialog({ open, onOpenChange, onImport }: CsvImportDialogProps) {
+  const [kind, setKind] = useState<CsvImportKind>("characters");
+  const [text, setText] = useState("");
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+
+  const [headers = [], ...dataRows] = parseCsv(text);
+  const imported = dataRows.length > 0 ? importCsvRows(dataRows, mapping, kind) : null;
+
+  const loadText = (csv: string, importKind: CsvImportKind = kind) => {
+    setText(csv);
+    setMapping(guessColumnMapping(parseCsv(csv)[0] ?? [], importKind));
+  };
+
+  const changeKind = (value: CsvImportKind) => {
+    setKind(value);
+    setMapping(guessColumnMapping(headers, value));
+  };
+
+  const loadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) loadText(await file.text());
+    event.target.value = "";
+  };
+
+  const mapField = (field: string, column: string) => {
+    const { [field]: _, ...rest } = mapping;
+    setMapping(column === NO_COLUMN ? rest : { ...rest, [field]: Number(column) });
+  };
+
+  const importRows = () => {
+    if (!imported?.ok) return;
+    onImport(
+      kind === "characters"
+        ? { kind, values: imported.values as CalculatorInput["characters"] }
+        : { kind, values: imported.values as CalculatorInput["monsters"] },
+    );
+    setText("");
+    setMapping({});
+    onOpenChange(false);
+  };
+
+  const errorsByRow = new Map<number, string[]>();
+  if (imported && !imported.ok) {
+    imported.errors.forEach(({ row, message }) => {
+      errorsByRow.set(row, [...(errorsByRow.get(row) ?? []), message]);
+    });
+  }
+  const listErrors = errorsByRow.get(0) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import CSV</DialogTitle>
+          <DialogDescription>
+            The first row is read as column headers. Importing replaces the current {kindNames[kind].toLowerCase()}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+          <div className="flex flex-col md:flex-row gap-2 md:items-center">
+            <Select value={kind} onValueChange={(value) => changeKind(value as CsvImportKind)}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(kindNames).map(([value, name]) => (
+                  <SelectItem key={value} value={value}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="outline" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Choose File
+                <input type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden" onChange={loadFile} />
+              </label>
+            </Button>
+          </div>
+
+          <Textarea
+            className="font-mono text-xs h-32"
+            placeholder={"Name,HD,Role,Status\nBrakk,3,PC,Present"}
+            value={text}
+            onChange={(e) => loadText(e.target.value)}
+          />
+
+          {headers.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {csvFields[kind].map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label>{label}</Label>
+                  <Select
+                    value={mapping[field] === undefined ? NO_COLUMN : String(mapping[field])}
+                    onValueChange={(column) => mapField(field, column)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not imported</SelectItem>
+                      {headers.map((header, column) => (
+                        <SelectItem key={column} value={String(column)}>
+                          {header || `Column ${column + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {listErrors.map((message) => (
+            <p key={message} className="text-sm font-medium text-destructive">
+              {message}
+            </p>
+          ))}
+
+          {imported && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  {csvFields[kind].map(({ field, label }) => (
+                    <TableHead key={field}>{label}</TableHead>
+                  ))}
+                  <TableHead>Problems</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imported.rows.map((row, index) => {
+                  // Spreadsheet numbering: the header is row 1
+                  const errors = errorsByRow.get(index + 2) ?? [];
+                  return (
+                    <TableRow key={index} className={errors.length > 0 ? "bg-destructive/10" : undefined}>
+                      <TableCell className="text-muted-foreground">{index + 2}</TableCell>
+                      {csvFields[kind].map(({ field }) => (
+                        <TableCell key={field}>{row[field] === undefined ? "" : String(row[field])}</TableCell>
+                      ))}
+                      <TableCell className="text-xs text-destructive">{errors.join("; ")}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" onClick={importRows} disabled={!imported?.ok}>
+            Import {imported ? `${imported.rows.length} ${imported.rows.length === 1 ? "Row" : "Rows"}` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from "react";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { formatHitDice, parseHitDice, type ParsedHitDice } from "@shared/calculator";
+
+type HitDiceNotationInputProps = {
+  id: string;
+  hitDice: number;
+  modifier: number;
+  specialAbilities?: number;
+  // Characters have no special abilities, so their asterisks are an error
+  allowAbilities?: boolean;
+  // Null while the text cannot be read, so the form can refuse to submit
+  onChange: (parsed: ParsedHitDice | null) => void;
+  className?: string;
+};
+
+// One text field for hit dice, modifier and asterisks, e.g. "3+3" or "7**".
+// Only readable notation reaches the form; anything else stays in the field
+// with an error under it, and the form is told its hit dice are unset.
+export function HitDiceNotationInput({
+  id,
+  hitDice,
+  modifier,
+  specialAbilities = 0,
+  allowAbilities = true,
+  onChange,
+  className,
+}: HitDiceNotationInputProps) {
+  const [text, setText] = useState(formatHitDice(hitDice, modifier, specialAbilities));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow changes made elsewhere, e.g. picking a monster from the bestiary
+  useEffect(() => {
+    // NaN is the form holding this field's own unreadable text
+    if (Number.isNaN(hitDice)) return;
+    const parsed = parseHitDice(text);
+    if (
+      !parsed ||
+      parsed.hitDice !== hitDice ||
+      parsed.modifier !== modifier ||
+      parsed.specialAbilities !== specialAbilities
+    ) {
+      setText(formatHitDice(hitDice, modifier, specialAbilities));
+      setError(null);
+    }
+    // Only outside changes matter here, not every keystroke
+  }, [hitDice, modifier, specialAbilities]);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const parsed = parseHitDice(value);
+    if (!parsed) {
+      setError("Write hit dice like 3+3, 1-1, ½, 2d8+1 or 7**");
+      onChange(null);
+    } else if (!allowAbilities && parsed.specialAbilities > 0) {
+      setError("Characters have no special abilities");
+      onChange(null);
+    } else {
+      setError(null);
+      onChange(parsed);
+    }
+  };
+
+  return (
+    <div className={`space-y-2 ${className ?? ""}`}>
+      <Label htmlFor={id} className={error ? "text-destructive" : undefined}>
+        Hit Dice
+      </Label>
+      <Input
+        id={id}
+        type="text"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        aria-invalid={!!error}
+      />
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
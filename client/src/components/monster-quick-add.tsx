@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "./ui/command";
+import { useAuth } from "../hooks/use-auth";
+import { BookMarked } from "lucide-react";
+import { formatHitDice } from "@shared/calculator";
+import { srdCatalogue } from "@shared/catalogue";
+import type { BestiaryMonster } from "@shared/schema";
+
+// What a picked template fills in on a monster row
+export type MonsterTemplate = Pick<BestiaryMonster, "name" | "hitDice" | "modifier" | "specialAbilities">;
+
+type MonsterQuickAddProps = {
+  onSelect: (template: MonsterTemplate) => void;
+  className?: string;
+};
+
+type TemplateItemProps = {
+  template: MonsterTemplate;
+  // Keeps the same monster in the bestiary and the catalogue apart
+  group: string;
+  keywords?: string[];
+  onSelect: (template: MonsterTemplate) => void;
+};
+
+function TemplateItem({ template, group, keywords, onSelect }: TemplateItemProps) {
+  const hitDice = formatHitDice(template.hitDice, template.modifier, template.specialAbilities);
+  return (
+    <CommandItem
+      value={`${template.name} ${hitDice} ${group}`}
+      keywords={keywords}
+      onSelect={() => onSelect(template)}
+    >
+      <span className="flex-1">{template.name}</span>
+      <span className="text-xs text-muted-foreground">{hitDice} HD</span>
+    </CommandItem>
+  );
+}
+
+// Searchable list of the signed-in GM's bestiary, then the bundled
+// catalogue, for filling a monster row
+export function MonsterQuickAdd({ onSelect, className }: MonsterQuickAddProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+
+  const { data: bestiary = [] } = useQuery<BestiaryMonster[]>({
+    queryKey: ["/api/bestiary"],
+    enabled: !!user,
+  });
+
+  const pick = (template: MonsterTemplate) => {
+    onSelect(template);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className={className}>
+          <BookMarked className="h-4 w-4 mr-2" />
+          Quick Add
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search monsters..." />
+          <CommandList>
+            <CommandEmpty>No monsters found.</CommandEmpty>
+            {bestiary.length > 0 && (
+              <>
+                <CommandGroup heading="Your Bestiary">
+                  {bestiary.map((monster) => (
+                    <TemplateItem
+                      key={monster.id}
+                      template={monster}
+                      group={`bestiary ${monster.id}`}
+                      keywords={monster.source ? [monster.source] : undefined}
+                      onSelect={pick}
+                    />
+                  ))}
+                </CommandGroup>
+                <CommandSeparator />
+              </>
+            )}
+            <CommandGroup heading="SRD Catalogue">
+              {srdCatalogue.map((monster) => (
+                <TemplateItem key={monster.name} template={monster} group={monster.source} onSelect={pick} />
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "./ui/button";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "./ui/table";
+import { useToast } from "../hooks/use-toast";
+import { downloadReportPdf } from "../lib/pdf";
+import { ArrowLeft, FileDown, Printer } from "lucide-react";
+import { reportTables, reportTotals } from "@shared/report";
+import type { ReportInput } from "@shared/export";
+
+type PrintReportProps = {
+  input: ReportInput;
+  campaignName?: string;
+  date: Date;
+  onClose: () => void;
+};
+
+// The calculation as a handout: totals, then the party, monster and
+// per-character tables. Printing drops the buttons; the PDF is drawn from
+// the same tables.
+export function PrintReport({ input, campaignName, date, onClose }: PrintReportProps) {
+  const title = "Session XP Report";
+  const subtitle = [campaignName, format(date, "PPP")].filter(Boolean).join(" · ");
+
+  const { toast } = useToast();
+  const [generating, setGenerating] = useState(false);
+
+  const downloadPdf = async () => {
+    try {
+      setGenerating(true);
+      await downloadReportPdf(input, {
+        title,
+        subtitle,
+        filename: `xp-report-${format(date, "yyyy-MM-dd")}.pdf`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: "Could not create the PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center print:hidden">
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <div className="flex space-x-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={downloadPdf} disabled={generating}>
+            <FileDown className="h-4 w-4 mr-2" />
+            {generating ? "Creating PDF..." : "Download PDF"}
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-2xl font-semibold">{title}</h2>
+        <p className="text-sm text-muted-foreground">{subtitle}</p>
+      </div>
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-2 text-sm">
+        {reportTotals(input).map(({ label, value }) => (
+          <div key={label}>
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="font-medium">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {reportTables(input).map((table) => (
+        <section key={table.title} className="space-y-2 break-inside-avoid">
+          <h3 className="text-lg font-semibold">{table.title}</h3>
+          <Table className="border">
+            <TableHeader>
+              <TableRow>
+                {table.head.map((heading, index) => (
+                  <TableHead key={index}>{heading}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {table.body.map((row, rowIndex) => (
+                <TableRow key={rowIndex} className="break-inside-avoid">
+                  {row.map((cell, index) => (
+                    <TableCell key={index}>{cell}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+            {table.foot && (
+              <TableFooter>
+                <TableRow>
+                  {table.foot.map((cell, index) => (
+                    <TableCell key={index} className="font-medium">
+                      {cell}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableFooter>
+            )}
+          </Table>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import type { InsertUser, PublicUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "../lib/queryClient";
+import { useToast } from "./use-toast";
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  // A 401 here just means nobody is signed in
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Everything cached belongs to whoever was signed in before, from campaigns
+  // and rosters to the bestiary and sessions, so none of it is kept
+  const onSignedIn = (signedIn: PublicUser) => {
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], signedIn);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({
+        title: "Login Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({
+        title: "Registration Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop the previous GM's data so it never flashes for the next one
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Logout Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{ user, isLoading, loginMutation, registerMutation, logoutMutation }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,69 @@
+import type { jsPDF } from "jspdf";
+import { reportTables, reportTotals } from "@shared/report";
+import type { ReportInput } from "@shared/export";
+
+type ReportPdfOptions = {
+  title: string;
+  // Shown under the title, e.g. the campaign and the date
+  subtitle: string;
+  filename: string;
+};
+
+// autoTable records where the last table ended on the document it drew into
+type DocumentWithTables = jsPDF & { lastAutoTable: { finalY: number } };
+
+const MARGIN = 40;
+
+/**
+ * Build the session report as a PDF in the browser and download it. Wide
+ * encounters go landscape so every monster keeps its own column. jsPDF is
+ * only loaded the first time a PDF is asked for, keeping it out of the main
+ * bundle.
+ */
+export async function downloadReportPdf(input: ReportInput, { title, subtitle, filename }: ReportPdfOptions) {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import("jspdf"), import("jspdf-autotable")]);
+  const tables = reportTables(input);
+  const widest = Math.max(...tables.map((table) => table.head.length));
+  const doc = new jsPDF({ orientation: widest > 9 ? "landscape" : "portrait", unit: "pt", format: "a4" });
+
+  doc.setFontSize(18);
+  doc.text(title, MARGIN, MARGIN + 10);
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(subtitle, MARGIN, MARGIN + 28);
+  doc.setTextColor(0);
+
+  autoTable(doc, {
+    startY: MARGIN + 44,
+    body: reportTotals(input).map(({ label, value }) => [label, value]),
+    theme: "plain",
+    tableWidth: 260,
+    styles: { fontSize: 10, cellPadding: 2 },
+    columnStyles: { 0: { textColor: 100 }, 1: { fontStyle: "bold", halign: "right" } },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+
+  tables.forEach((table) => {
+    let y = (doc as DocumentWithTables).lastAutoTable.finalY + 24;
+    // Keep a table's title on the same page as its first rows
+    if (y > doc.internal.pageSize.getHeight() - 100) {
+      doc.addPage();
+      y = MARGIN + 10;
+    }
+    doc.setFontSize(13);
+    doc.text(table.title, MARGIN, y);
+    autoTable(doc, {
+      startY: y + 8,
+      head: [table.head],
+      body: table.body,
+      foot: table.foot && [table.foot],
+      theme: "grid",
+      styles: { fontSize: 9, cellPadding: 4 },
+      headStyles: { fillColor: [241, 245, 249], textColor: 20 },
+      footStyles: { fillColor: [241, 245, 249], textColor: 20 },
+      margin: { left: MARGIN, right: MARGIN },
+    });
+  });
+
+  doc.save(filename);
+}
@@ -3,4 +3,16 @@ import { twMerge } from "tailwind-merge";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
-}
\ No newline at end of file
+}
+
+// Save generated text, e.g. an export, as a file in the browser's downloads
+export function downloadFile(contents: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns, so the URL has to
+  // outlive this call
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,113 @@
+import React, { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../components/ui/form";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs";
+import { LogIn, UserPlus } from "lucide-react";
+import { insertUserSchema, type InsertUser } from "@shared/schema";
+import { useAuth } from "../hooks/use-auth";
+
+function CredentialsForm({
+  onSubmit,
+  isPending,
+  submitLabel,
+  icon,
+}: {
+  onSubmit: (values: InsertUser) => void;
+  isPending: boolean;
+  submitLabel: string;
+  icon: React.ReactNode;
+}) {
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input type="text" autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {icon}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function Auth() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [, setLocation] = useLocation();
+
+  // Signed-in GMs have nothing to do here
+  useEffect(() => {
+    if (user) {
+      setLocation("/");
+    }
+  }, [user, setLocation]);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle className="text-2xl">Primeval Arcana Party XP Calculator</CardTitle>
+          <CardDescription>Sign in to keep your saved calculations across devices</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Sign In</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                onSubmit={(values) => loginMutation.mutate(values)}
+                isPending={loginMutation.isPending}
+                submitLabel="Sign In"
+                icon={<LogIn className="h-4 w-4 mr-2" />}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                onSubmit={(values) => registerMutation.mutate(values)}
+                isPending={registerMutation.isPending}
+                submitLabel="Create Account"
+                icon={<UserPlus className="h-4 w-4 mr-2" />}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
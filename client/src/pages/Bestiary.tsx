@@ -0,0 +1,418 @@
+import React, { useState } from "react";
+import { Link } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Badge } from "../components/ui/badge";
+import { Separator } from "../components/ui/separator";
+import { Textarea } from "../components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../components/ui/form";
+import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../hooks/use-auth";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { ArrowLeft, Download, Pencil, Plus, Save, Search, Trash, X } from "lucide-react";
+import { formatHitDice } from "@shared/calculator";
+import { catalogueLicense, searchCatalogue } from "@shared/catalogue";
+import {
+  insertBestiaryMonsterSchema,
+  type BestiaryMonster,
+  type ImportCatalogueInput,
+  type InsertBestiaryMonster,
+} from "@shared/schema";
+
+const emptyMonster: InsertBestiaryMonster = {
+  name: "",
+  hitDice: 1,
+  modifier: 0,
+  specialAbilities: 0,
+  notes: "",
+  source: "",
+};
+
+export default function Bestiary() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [search, setSearch] = useState("");
+  const [catalogueSearch, setCatalogueSearch] = useState("");
+
+  const { data: bestiary = [] } = useQuery<BestiaryMonster[]>({
+    queryKey: ["/api/bestiary"],
+    enabled: !!user,
+  });
+
+  const form = useForm<InsertBestiaryMonster>({
+    resolver: zodResolver(insertBestiaryMonsterSchema),
+    defaultValues: emptyMonster,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (monster: InsertBestiaryMonster) =>
+      editingId === null
+        ? apiRequest("POST", "/api/bestiary", monster)
+        : apiRequest("PATCH", `/api/bestiary/${editingId}`, monster),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bestiary"] });
+      toast({
+        title: editingId === null ? "Monster Added" : "Monster Updated",
+        description: `${form.getValues("name")} has been saved`,
+      });
+      setEditingId(null);
+      form.reset(emptyMonster);
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Could not save the monster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/bestiary/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bestiary"] });
+      toast({
+        title: "Monster Deleted",
+        description: "The monster has been removed from your bestiary",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete the monster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (input: ImportCatalogueInput) => {
+      const res = await apiRequest("POST", "/api/bestiary/import", input);
+      return (await res.json()) as BestiaryMonster[];
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bestiary"] });
+      toast({
+        title: "Monsters Imported",
+        description:
+          created.length === 1
+            ? `${created[0].name} has been added to your bestiary`
+            : `${created.length} monsters have been added to your bestiary`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Import Failed",
+        description: "Could not import from the catalogue",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const editMonster = (monster: BestiaryMonster) => {
+    setEditingId(monster.id);
+    form.reset({
+      name: monster.name,
+      hitDice: monster.hitDice,
+      modifier: monster.modifier,
+      specialAbilities: monster.specialAbilities,
+      notes: monster.notes,
+      source: monster.source,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    form.reset(emptyMonster);
+  };
+
+  const query = search.trim().toLowerCase();
+  const filteredBestiary = query
+    ? bestiary.filter(
+        (monster) =>
+          monster.name.toLowerCase().includes(query) || monster.source.toLowerCase().includes(query),
+      )
+    : bestiary;
+
+  const inBestiary = (name: string) =>
+    bestiary.some((monster) => monster.name.toLowerCase() === name.toLowerCase());
+  const catalogueResults = searchCatalogue(catalogueSearch);
+  const notYetImported = catalogueResults.filter((monster) => !inBestiary(monster.name));
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <Card className="w-full max-w-4xl mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-3xl">Bestiary</CardTitle>
+              <CardDescription>Monsters you fight often, ready to drop into an encounter</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Calculator
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {!user ? (
+            <p className="text-sm text-muted-foreground">
+              <Link href="/auth" className="underline">Sign in</Link> to keep a bestiary.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))}
+                  className="space-y-4"
+                >
+                  <h3 className="text-lg font-semibold">
+                    {editingId === null ? "New Monster" : "Edit Monster"}
+                  </h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem className="col-span-2">
+                          <FormLabel>Name</FormLabel>
+                          <FormControl>
+                            <Input type="text" placeholder="Skaven Warriors" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="source"
+                      render={({ field }) => (
+                        <FormItem className="col-span-2">
+                          <FormLabel>Source</FormLabel>
+                          <FormControl>
+                            <Input type="text" placeholder="Monster Manual, p. 12" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="hitDice"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Hit Dice</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              step="any"
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="modifier"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Modifier</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="specialAbilities"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Abilities (*)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="notes"
+                      render={({ field }) => (
+                        <FormItem className="col-span-2 md:col-span-4">
+                          <FormLabel>Notes</FormLabel>
+                          <FormControl>
+                            <Textarea rows={2} placeholder="Regenerates 1 hp a round" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-4">
+                    {editingId !== null && (
+                      <Button type="button" variant="outline" onClick={cancelEdit}>
+                        <X className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    )}
+                    <Button type="submit" disabled={saveMutation.isPending}>
+                      {editingId === null ? <Plus className="h-4 w-4 mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                      {editingId === null ? "Add Monster" : "Save Monster"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex justify-between items-center gap-4">
+                  <h3 className="text-lg font-semibold">Your Monsters</h3>
+                  <div className="relative w-64">
+                    <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      type="search"
+                      placeholder="Search by name or source"
+                      className="pl-8"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                    />
+                  </div>
+                </div>
+                {filteredBestiary.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {bestiary.length === 0 ? "No monsters in your bestiary yet." : "No monsters match your search."}
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {filteredBestiary.map((monster) => (
+                      <Card key={monster.id}>
+                        <CardContent className="p-4">
+                          <div className="flex justify-between items-start">
+                            <div className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <p className="font-medium">{monster.name}</p>
+                                <Badge>
+                                  {formatHitDice(monster.hitDice, monster.modifier, monster.specialAbilities)} HD
+                                </Badge>
+                                {monster.source && <Badge variant="outline">{monster.source}</Badge>}
+                              </div>
+                              {monster.notes && (
+                                <p className="text-sm text-muted-foreground">{monster.notes}</p>
+                              )}
+                            </div>
+                            <div className="flex space-x-2">
+                              <Button variant="outline" size="sm" onClick={() => editMonster(monster)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => deleteMutation.mutate(monster.id)}
+                                disabled={deleteMutation.isPending}
+                              >
+                                <Trash className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex justify-between items-center gap-4">
+                  <div>
+                    <h3 className="text-lg font-semibold">SRD Catalogue</h3>
+                    <p className="text-xs text-muted-foreground">{catalogueLicense}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="relative w-64">
+                      <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        type="search"
+                        placeholder="Search the catalogue"
+                        className="pl-8"
+                        value={catalogueSearch}
+                        onChange={(e) => setCatalogueSearch(e.target.value)}
+                      />
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => importMutation.mutate({ names: notYetImported.map((monster) => monster.name) })}
+                      disabled={notYetImported.length === 0 || importMutation.isPending}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Import {catalogueSearch.trim() ? "Matches" : "All"}
+                    </Button>
+                  </div>
+                </div>
+                {catalogueResults.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No catalogue monsters match your search.</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {catalogueResults.map((monster) => (
+                      <div
+                        key={monster.name}
+                        className="flex justify-between items-center text-sm bg-secondary/30 p-2 rounded-sm"
+                      >
+                        <div>
+                          <span className="font-medium">{monster.name}</span>
+                          <span className="ml-2 text-muted-foreground">
+                            {formatHitDice(monster.hitDice, monster.modifier, monster.specialAbilities)} HD
+                          </span>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => importMutation.mutate({ names: [monster.name] })}
+                          disabled={inBestiary(monster.name) || importMutation.isPending}
+                        >
+                          {inBestiary(monster.name) ? "Added" : <Plus className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,644 @@
+import React, { useState } from "react";
+import { Link } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Badge } from "../components/ui/badge";
+import { Separator } from "../components/ui/separator";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { Checkbox } from "../components/ui/checkbox";
+import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../hooks/use-auth";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { ArrowLeft, Pencil, Plus, Save, Trash, Users, X } from "lucide-react";
+import { type Campaign, type InsertCampaign, type SavedCalculation } from "@shared/schema";
+import {
+  bxRuleset,
+  characterStatusNames,
+  primevalArcanaRuleset,
+  resolveRuleset,
+  rulesetIds,
+  rulesetNames,
+  shareHandlingNames,
+  shareHandlings,
+  type RulesetRules,
+} from "@shared/rulesets";
+
+// The stepped curve is typed as a comma-separated list of factors
+const parseSteps = (steps: string): number[] =>
+  steps
+    .split(",")
+    .map((step) => step.trim())
+    .filter(Boolean)
+    .map(Number);
+
+// The roster is typed as a comma-separated list and split on submit. The
+// rule fields only matter for a custom ruleset.
+const campaignFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Campaign name is required"),
+    ruleset: z.enum(rulesetIds),
+    members: z.string(),
+    baseXpPerHd: z.number().positive("Base XP per HD must be positive"),
+    modifierWeight: z.number().min(0, "Modifier weight cannot be negative"),
+    subHitDieXpFloor: z.number().min(0, "XP floor cannot be negative"),
+    monsterXp: z.enum(["perHitDie", "table"]),
+    adjustment: z.enum(["ratio", "stepped", "none"]),
+    steps: z.string(),
+    rounding: z.enum(["floor", "round", "ceil"]),
+    henchmanShare: z.number().min(0, "Share weights cannot be negative"),
+    hirelingShare: z.number().min(0, "Share weights cannot be negative"),
+    npcShare: z.number().min(0, "Share weights cannot be negative"),
+    zeroSharesCountTowardHeadcount: z.boolean(),
+    deadHandling: z.enum(shareHandlings),
+    fledHandling: z.enum(shareHandlings),
+    unconsciousHandling: z.enum(shareHandlings),
+  })
+  .superRefine((values, ctx) => {
+    if (values.ruleset !== "custom" || values.adjustment !== "stepped") return;
+    const steps = parseSteps(values.steps);
+    if (steps.length === 0 || steps.some((step) => isNaN(step) || step < 0 || step > 1)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["steps"],
+        message: "List factors between 0 and 1, e.g. 0.8, 0.6, 0.4",
+      });
+    }
+  });
+
+type CampaignFormValues = z.infer<typeof campaignFormSchema>;
+
+// One share handling select per status other than present
+const statusHandlingFields = [
+  { name: "deadHandling", status: "dead" },
+  { name: "fledHandling", status: "fled" },
+  { name: "unconsciousHandling", status: "unconscious" },
+] as const;
+
+const toRuleFields = (rules: RulesetRules) => ({
+  baseXpPerHd: rules.baseXpPerHd,
+  modifierWeight: rules.modifierWeight,
+  subHitDieXpFloor: rules.subHitDieXpFloor,
+  monsterXp: rules.monsterXp.kind,
+  adjustment: rules.adjustment.kind,
+  steps: rules.adjustment.kind === "stepped" ? rules.adjustment.steps.join(", ") : "",
+  rounding: rules.rounding,
+  henchmanShare: rules.shareWeights.henchman,
+  hirelingShare: rules.shareWeights.hireling,
+  npcShare: rules.shareWeights.npc,
+  zeroSharesCountTowardHeadcount: rules.zeroSharesCountTowardHeadcount,
+  deadHandling: rules.statusHandling.dead,
+  fledHandling: rules.statusHandling.fled,
+  unconsciousHandling: rules.statusHandling.unconscious,
+});
+
+const emptyCampaign: CampaignFormValues = {
+  name: "",
+  ruleset: "primeval-arcana",
+  members: "",
+  ...toRuleFields(primevalArcanaRuleset),
+};
+
+const toCustomRuleset = (values: CampaignFormValues): RulesetRules => ({
+  baseXpPerHd: values.baseXpPerHd,
+  modifierWeight: values.modifierWeight,
+  monsterXp: values.monsterXp === "table" ? bxRuleset.monsterXp : { kind: "perHitDie" },
+  adjustment:
+    values.adjustment === "stepped"
+      ? { kind: "stepped", steps: parseSteps(values.steps) }
+      : { kind: values.adjustment },
+  rounding: values.rounding,
+  // A PC always takes one full share; everyone else is weighed against that
+  shareWeights: {
+    pc: 1,
+    henchman: values.henchmanShare,
+    hireling: values.hirelingShare,
+    npc: values.npcShare,
+  },
+  zeroSharesCountTowardHeadcount: values.zeroSharesCountTowardHeadcount,
+  statusHandling: {
+    dead: values.deadHandling,
+    fled: values.fledHandling,
+    unconscious: values.unconsciousHandling,
+  },
+  subHitDieXpFloor: values.subHitDieXpFloor,
+});
+
+// Custom classes are managed from the roster page and clipboard templates
+// from the calculator, so both are left untouched here
+type CampaignDetails = Omit<InsertCampaign, "advancementTables" | "clipboardTemplates">;
+
+const toCampaignDetails = (values: CampaignFormValues): CampaignDetails => ({
+  name: values.name,
+  ruleset: values.ruleset,
+  customRuleset: values.ruleset === "custom" ? toCustomRuleset(values) : null,
+  members: values.members
+    .split(",")
+    .map((member) => member.trim())
+    .filter(Boolean),
+});
+
+export default function Campaigns() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+    enabled: !!user,
+  });
+
+  const { data: calculations = [] } = useQuery<SavedCalculation[]>({
+    queryKey: ["/api/calculations"],
+    enabled: !!user,
+  });
+
+  const form = useForm<CampaignFormValues>({
+    resolver: zodResolver(campaignFormSchema),
+    defaultValues: emptyCampaign,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (campaign: CampaignDetails) =>
+      editingId === null
+        ? apiRequest("POST", "/api/campaigns", campaign)
+        : apiRequest("PATCH", `/api/campaigns/${editingId}`, campaign),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      toast({
+        title: editingId === null ? "Campaign Created" : "Campaign Updated",
+        description: `${form.getValues("name")} has been saved`,
+      });
+      setEditingId(null);
+      form.reset(emptyCampaign);
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Could not save the campaign",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/campaigns/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/calculations"] });
+      toast({
+        title: "Campaign Deleted",
+        description: "The campaign and its saved calculations have been deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete the campaign",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const editCampaign = (campaign: Campaign) => {
+    setEditingId(campaign.id);
+    form.reset({
+      name: campaign.name,
+      ruleset: campaign.ruleset,
+      members: campaign.members.join(", "),
+      ...toRuleFields(resolveRuleset(campaign.ruleset, campaign.customRuleset)),
+    });
+  };
+
+  const isCustom = form.watch("ruleset") === "custom";
+  const isStepped = form.watch("adjustment") === "stepped";
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    form.reset(emptyCampaign);
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <Card className="w-full max-w-4xl mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-3xl">Campaigns</CardTitle>
+              <CardDescription>Group saved calculations by the table they were played at</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Calculator
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {!user ? (
+            <p className="text-sm text-muted-foreground">
+              <Link href="/auth" className="underline">Sign in</Link> to manage your campaigns.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit((values) => saveMutation.mutate(toCampaignDetails(values)))}
+                  className="space-y-4"
+                >
+                  <h3 className="text-lg font-semibold">
+                    {editingId === null ? "New Campaign" : "Edit Campaign"}
+                  </h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name</FormLabel>
+                          <FormControl>
+                            <Input type="text" placeholder="The Caves of Chaos" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="ruleset"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Ruleset</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {rulesetIds.map((ruleset) => (
+                                <SelectItem key={ruleset} value={ruleset}>
+                                  {rulesetNames[ruleset]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="members"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Members</FormLabel>
+                          <FormControl>
+                            <Input type="text" placeholder="Alice, Bob, Carol" {...field} />
+                          </FormControl>
+                          <FormDescription>Comma-separated player names</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  {isCustom && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 border rounded-lg p-4">
+                      <FormField
+                        control={form.control}
+                        name="baseXpPerHd"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Base XP per HD</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                value={field.value}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="modifierWeight"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Modifier Weight</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={0}
+                                step={0.05}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                value={field.value}
+                              />
+                            </FormControl>
+                            <FormDescription>Fraction of a hit die per +1</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="subHitDieXpFloor"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Sub-1 HD XP Floor</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={0}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                value={field.value}
+                              />
+                            </FormControl>
+                            <FormDescription>Least XP for a monster under 1 HD</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="monsterXp"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Monster XP</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="perHitDie">Base XP per hit die</SelectItem>
+                                <SelectItem value="table">B/X table by HD</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="adjustment"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Adjustment Curve</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="ratio">Monster HD ÷ character HD</SelectItem>
+                                <SelectItem value="stepped">Stepped by HD difference</SelectItem>
+                                <SelectItem value="none">No adjustment</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      {isStepped && (
+                        <FormField
+                          control={form.control}
+                          name="steps"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Steps</FormLabel>
+                              <FormControl>
+                                <Input type="text" placeholder="0.8, 0.6, 0.4, 0.2" {...field} />
+                              </FormControl>
+                              <FormDescription>Factor for 1, 2, 3… HD above the monster</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
+                      <FormField
+                        control={form.control}
+                        name="rounding"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Rounding</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="floor">Round down</SelectItem>
+                                <SelectItem value="round">Round to nearest</SelectItem>
+                                <SelectItem value="ceil">Round up</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="henchmanShare"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Henchman Share</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={0}
+                                step={0.25}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                value={field.value}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="hirelingShare"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Hireling Share</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={0}
+                                step={0.25}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                value={field.value}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="npcShare"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>NPC Share</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={0}
+                                step={0.25}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                value={field.value}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="zeroSharesCountTowardHeadcount"
+                        render={({ field }) => (
+                          <FormItem className="flex items-start gap-2 space-y-0 md:col-span-2">
+                            <FormControl>
+                              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                            </FormControl>
+                            <div className="space-y-1">
+                              <FormLabel>Zero shares count toward headcount</FormLabel>
+                              <FormDescription>
+                                Hirelings on no share still divide the XP, leaving their cut unclaimed
+                              </FormDescription>
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+
+                      {statusHandlingFields.map(({ name, status }) => (
+                        <FormField
+                          key={name}
+                          control={form.control}
+                          name={name}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{characterStatusNames[status]} Characters' Share</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {shareHandlings.map((handling) => (
+                                    <SelectItem key={handling} value={handling}>
+                                      {shareHandlingNames[handling]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-4">
+                    {editingId !== null && (
+                      <Button type="button" variant="outline" onClick={cancelEdit}>
+                        <X className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    )}
+                    <Button type="submit" disabled={saveMutation.isPending}>
+                      {editingId === null ? <Plus className="h-4 w-4 mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                      {editingId === null ? "Create Campaign" : "Save Campaign"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+
+              <Separator />
+
+              {campaigns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No campaigns yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {campaigns.map((campaign) => {
+                    const campaignCalculations = calculations.filter((calc) => calc.campaignId === campaign.id);
+                    const totalXp = campaignCalculations.reduce((sum, calc) => sum + calc.result.totalXp, 0);
+                    return (
+                      <Card key={campaign.id}>
+                        <CardContent className="p-4">
+                          <div className="flex justify-between items-center">
+                            <div className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <p className="font-medium">{campaign.name}</p>
+                                <Badge variant="outline">{rulesetNames[campaign.ruleset]}</Badge>
+                              </div>
+                              <p className="text-sm text-muted-foreground">
+                                {campaign.members.length > 0 ? campaign.members.join(", ") : "No members yet"}
+                              </p>
+                              <p className="text-sm font-medium">
+                                {campaignCalculations.length} saved calculations · {totalXp.toLocaleString()} XP awarded
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                Started {format(new Date(campaign.createdAt), "PP")}
+                              </p>
+                            </div>
+                            <div className="flex space-x-2">
+                              <Button variant="outline" size="sm" asChild>
+                                <Link href={`/campaigns/${campaign.id}`}>
+                                  <Users className="h-4 w-4 mr-2" />
+                                  Roster
+                                </Link>
+                              </Button>
+                              <Button variant="outline" size="sm" onClick={() => editCampaign(campaign)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => deleteMutation.mutate(campaign.id)}
+                                disabled={deleteMutation.isPending}
+                              >
+                                <Trash className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
@@ -8,181 +8,121 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Badge } from "../components/ui/badge";
 import { Separator } from "../components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { Checkbox } from "../components/ui/checkbox";
+import { Label } from "../components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../components/ui/dialog";
 import { format } from "date-fns";
 import { useToast } from "../hooks/use-toast";
-import { Trash, Plus, Calculator, Save, List, RotateCcw, X, Copy, Check } from "lucide-react";
-
-// Types for our application
-type Character = {
-  id: number;
-  name: string;
-  hitDice: number;
-  modifier: number;
-  effectiveHitDice: number;
-};
-
-type Monster = {
-  id: number;
-  name: string;
-  hitDice: number;
-  modifier: number;
-  count: number;
-  effectiveHitDice: number;
-};
-
-type CalculationResult = {
-  totalPartyHitDice: number;
-  totalMonsterHitDice: number;
-  totalXp: number;
-  xpPerCharacter: number;
-  averagePartyLevel: number;
-  adjustmentFactor: number;
-  characterXp: {
-    characterId: number;
-    effectiveHitDice: number;
-    adjustmentFactor: number;
-    adjustedXp: number;
-    monsterContributions: {
-      monsterId: number;
-      monsterName: string;
-      baseXp: number;
-      adjustmentFactor: number;
-      adjustedXp: number;
-    }[];
-  }[];
-};
-
-type SavedCalculation = {
-  id: string;
-  date: Date;
-  characters: Character[];
-  monsters: Monster[];
-  result: CalculationResult;
-};
-
-// Schemas for form validation
-const characterSchema = z.object({
-  name: z.string().optional(),
-  hitDice: z.number().min(1, "Hit dice must be at least 1"),
-  modifier: z.number(),
-});
-
-const monsterSchema = z.object({
-  name: z.string().optional(),
-  hitDice: z.number().min(1, "Hit dice must be at least 1"),
-  modifier: z.number(),
-  count: z.number().min(1, "Count must be at least 1"),
-});
-
-const calculatorSchema = z.object({
-  characters: z.array(characterSchema).min(1, "Add at least one character"),
-  monsters: z.array(monsterSchema).min(1, "Add at least one monster"),
-});
-
-// Helper functions
-const calculateEffectiveHitDice = (hitDice: number, modifier: number): number => {
-  return hitDice + modifier * 0.25;
-};
-
-const calculateTotalXp = (monsters: Monster[]): number => {
-  return monsters.reduce((total, monster) => {
-    return total + monster.effectiveHitDice * monster.count * 100;
-  }, 0);
-};
-
-const calculateAdjustmentFactor = (characterHD: number, monsterHD: number): number => {
-  if (characterHD <= monsterHD) {
-    return 1.0; // Character gets 100% of XP if their HD is less than or equal to monster HD
-  }
-  return monsterHD / characterHD; // Reduced XP based on ratio
-};
-
-// Helper to format hit dice display with modifier
-const formatHitDice = (hitDice: number, modifier: number): string => {
-  if (modifier > 0) {
-    return `${hitDice}+${modifier}`;
-  } else if (modifier < 0) {
-    return `${hitDice}${modifier}`;
-  } else {
-    return `${hitDice}`;
-  }
-};
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { downloadFile } from "../lib/utils";
+import { Link, useLocation, useSearch } from "wouter";
+import { MonsterQuickAdd, type MonsterTemplate } from "../components/monster-quick-add";
+import { HitDiceNotationInput } from "../components/hit-dice-notation-input";
+import { useAuth } from "../hooks/use-auth";
+import { Trash, Plus, Calculator, Save, List, RotateCcw, X, Copy, Check, LogIn, LogOut, BookOpen, Award, Layers, Skull, Share2, ChevronDown, Pencil, Upload, Download, FileText } from "lucide-react";
+import {
+  calculate,
+  calculateMonsterXp,
+  calculateTreasureValue,
+  emptyTreasure,
+  formatHitDice,
+  formatPercent,
+  formatSignedXp,
+  type Character,
+  type Monster,
+  type CalculationResult,
+  type Treasure,
+} from "@shared/calculator";
+import {
+  characterStatusNames,
+  characterStatuses,
+  participantRoleNames,
+  participantRoles,
+  resolveRuleset,
+  shareHandlingNames,
+  type RulesetDefinition,
+} from "@shared/rulesets";
+import { PERMALINK_PARAM, decodePermalink, encodePermalink } from "@shared/permalink";
+import { exportReport, exporters, findExporter, type ExportFormat, type ReportInput } from "@shared/export";
+import { buildTemplateContext, renderTemplate, type ClipboardTemplate } from "@shared/template";
+import { ClipboardTemplateEditor } from "../components/clipboard-template-editor";
+import { CsvImportDialog, type CsvImportValues } from "../components/csv-import-dialog";
+import { PrintReport } from "../components/print-report";
+import { resultMatrix, toCsv } from "@shared/csv";
+import { backupCalculationSchema, readBackup, type RestoreBackupInput, type RestoreReport } from "@shared/backup";
+import {
+  detectLevelUps,
+  findAdvancementTable,
+  type CharacterProgress,
+  type LevelUp,
+} from "@shared/advancement";
+import {
+  calculatorSchema,
+  type Campaign,
+  type RosterCharacterWithXp,
+  type SaveCalculationInput,
+  type SavedCalculation,
+} from "@shared/schema";
+
+// Where calculations were kept before they were saved to the server
+const LEGACY_STORAGE_KEY = "odnd-xp-calculations";
 
 export default function Home() {
   const [characters, setCharacters] = useState<Character[]>([]);
   const [monsters, setMonsters] = useState<Monster[]>([]);
+  const [treasure, setTreasure] = useState<Treasure | null>(null);
   const [result, setResult] = useState<CalculationResult | null>(null);
-  const [savedCalculations, setSavedCalculations] = useState<SavedCalculation[]>([]);
   const [showSaved, setShowSaved] = useState(false);
+  // The printable report of the current result, in place of the form
+  const [showReport, setShowReport] = useState(false);
+  const [campaignId, setCampaignId] = useState<number | null>(null);
+  const [savedCampaignFilter, setSavedCampaignFilter] = useState("all");
+  // The saved record behind the current result, once there is one
+  const [savedCalculation, setSavedCalculation] = useState<SavedCalculation | null>(null);
+  // Level-ups that the last award actually applied to the roster
+  const [awardedLevelUps, setAwardedLevelUps] = useState<LevelUp[]>([]);
+  // Type hit dice as one "3+3" style field instead of separate numbers
+  const [hdNotation, setHdNotation] = useState(false);
+  // The ruleset a shared link came with, until the GM picks a campaign
+  const [sharedRuleset, setSharedRuleset] = useState<RulesetDefinition | null>(null);
+  const search = useSearch();
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
   const [copying, setCopying] = useState(false);
+  // An export too long for one message, waiting to be copied part by part
+  const [exportParts, setExportParts] = useState<{ name: string; parts: string[] } | null>(null);
+  const [copiedPart, setCopiedPart] = useState<number | null>(null);
+  const [editingTemplates, setEditingTemplates] = useState(false);
+  const [importingCsv, setImportingCsv] = useState(false);
+  // A restored backup with conflicts, kept so they can be restored as copies
+  const [restoreConflicts, setRestoreConflicts] = useState<{ backup: unknown; report: RestoreReport } | null>(null);
   
-  // Format the results with emojis for clipboard sharing
-  const formatResultsForClipboard = (): string => {
-    if (!result || characters.length === 0 || monsters.length === 0) return "";
-    
-    let formattedText = "# 🧙‍♂️ Primeval Arcana XP Calculator 🧙‍♂️\n\n";
-    
-    // Party and monster summary
-    formattedText += "## ⚔️ Encounter Summary ⚔️\n";
-    formattedText += `${characters.length} adventurers vs ${monsters.reduce((sum, m) => sum + m.count, 0)} monsters\n\n`;
-    
-    // Party details
-    formattedText += "### 👥 Party\n";
-    characters.forEach(char => {
-      formattedText += `- ${char.name} (${formatHitDice(char.hitDice, char.modifier)} HD)\n`;
-    });
-    formattedText += `Total Party HD: ${result.totalPartyHitDice.toFixed(2)}\n\n`;
-    
-    // Monster details
-    formattedText += "### 👹 Monsters\n";
-    monsters.forEach(monster => {
-      formattedText += `- ${monster.count}× ${monster.name} (${formatHitDice(monster.hitDice, monster.modifier)} HD)\n`;
-    });
-    formattedText += `Total Monster HD: ${result.totalMonsterHitDice.toFixed(2)}\n\n`;
-    
-    // XP Summary
-    formattedText += "## 💰 XP Summary 💰\n";
-    formattedText += `Total XP: ${result.totalXp.toLocaleString()} XP\n`;
-    formattedText += `Base XP Per Character: ${Math.round(result.xpPerCharacter).toLocaleString()} XP\n\n`;
-    
-    // Character XP Breakdown
-    formattedText += "## 📊 Character XP Breakdown 📊\n";
-    result.characterXp.forEach(charXp => {
-      const character = characters.find(c => c.id === charXp.characterId);
-      if (!character) return;
-      
-      formattedText += `### ${character.name} - ${Math.round(charXp.adjustedXp).toLocaleString()} XP 🎯\n`;
-      
-      // Monster contributions
-      charXp.monsterContributions.forEach(contrib => {
-        const monster = monsters.find(m => m.id === contrib.monsterId);
-        if (!monster) return;
-        
-        formattedText += `- ${monster.name}: ${Math.round(contrib.adjustedXp).toLocaleString()} XP`;
-        if (contrib.adjustmentFactor < 1.0) {
-          formattedText += ` (adjusted: ×${contrib.adjustmentFactor.toFixed(2)})`;
-        }
-        formattedText += "\n";
-      });
-      formattedText += "\n";
-    });
-    
-    return formattedText;
-  };
-  
-  // Copy results to clipboard
-  const copyToClipboard = async () => {
-    if (!result) return;
-    
+  // What the exporters and templates lay out, once there is a result
+  const reportInput = (): ReportInput | null =>
+    result && characters.length > 0 && monsters.length > 0
+      ? { characters, monsters, treasure, result, ruleset, levelUps }
+      : null;
+
+  const writeToClipboard = async (text: string, formatName: string) => {
     try {
       setCopying(true);
-      const text = formatResultsForClipboard();
       await navigator.clipboard.writeText(text);
-      
+
       toast({
         title: "Copied to Clipboard",
-        description: "Results formatted with emojis for sharing",
+        description: `Results copied as ${formatName}`,
         variant: "success",
       });
     } catch (error) {
@@ -195,152 +135,453 @@ export default function Home() {
       setTimeout(() => setCopying(false), 2000);
     }
   };
+
+  // Copy the results in one of the export formats. A format that has to be
+  // split into several messages opens them in a dialog to copy one by one.
+  const copyExport = async (format: ExportFormat) => {
+    const input = reportInput();
+    if (!input) return;
+
+    // The emoji layout is itself a clipboard template, so a campaign's default
+    // template takes its place and is copied the same way as any other
+    const defaultTemplate = campaign?.clipboardTemplates[0];
+    if (format === "emoji" && defaultTemplate) {
+      await copyTemplate(defaultTemplate);
+      return;
+    }
+
+    const exporter = findExporter(format);
+    const parts = exportReport(format, input);
+    if (parts.length > 1) {
+      setExportParts({ name: exporter.name, parts });
+      return;
+    }
+    await writeToClipboard(parts[0] ?? "", exporter.name);
+  };
+
+  const copyTemplate = async (template: ClipboardTemplate) => {
+    const input = reportInput();
+    if (!input) return;
+
+    const output = renderTemplate(template.body, buildTemplateContext(input));
+    if (!output.ok) {
+      toast({
+        title: "Template Error",
+        description: `${template.name}: ${output.error}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    await writeToClipboard(output.text, template.name);
+  };
+
+  // The per-character, per-monster XP matrix as a file for the campaign ledger
+  const downloadCsv = () => {
+    const input = reportInput();
+    if (!input) return;
+
+    downloadFile(toCsv(resultMatrix(input)), "xp-results.csv", "text/csv");
+  };
+
+  const importCsv = (imported: CsvImportValues) => {
+    if (imported.kind === "characters") {
+      form.setValue("characters", imported.values);
+      // Participants point at party positions, which no longer mean the same characters
+      form.setValue(
+        "monsters",
+        form.getValues("monsters").map((monster) => ({ ...monster, participants: undefined })),
+      );
+    } else {
+      form.setValue("monsters", imported.values);
+    }
+    toast({
+      title: "CSV Imported",
+      description: `${imported.values.length} ${imported.kind === "characters" ? "characters" : "monsters"} loaded`,
+      variant: "success",
+    });
+  };
+
+  const copyExportPart = async (index: number) => {
+    if (!exportParts) return;
+    try {
+      await navigator.clipboard.writeText(exportParts.parts[index]);
+      setCopiedPart(index);
+    } catch (error) {
+      toast({
+        title: "Copy Failed",
+        description: "Could not copy results to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
   
-  // Load saved calculations on component mount
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+    enabled: !!user,
+  });
+
+  // Save into the first campaign until the GM picks another one
+  useEffect(() => {
+    if (campaigns.length === 0) {
+      setCampaignId(null);
+    } else if (!campaigns.some((campaign) => campaign.id === campaignId)) {
+      setCampaignId(campaigns[0].id);
+    }
+  }, [campaigns, campaignId]);
+
+  // Calculations saved before they moved to the server are still in this
+  // browser's storage. Restore the readable ones once into the GM's campaign,
+  // keeping their dates, and clear the old key when the server has answered;
+  // entries that cannot be read would fail the same way on every visit.
+  const legacyImportStarted = useRef(false);
   useEffect(() => {
-    const saved = localStorage.getItem("odnd-xp-calculations");
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        // Convert string dates to Date objects
-        const calculations: SavedCalculation[] = parsed.map((calc: any) => ({
-          ...calc,
-          date: new Date(calc.date),
-        }));
-        setSavedCalculations(calculations);
-      } catch (error) {
-        console.error("Failed to parse saved calculations", error);
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored || !user || campaignId === null || legacyImportStarted.current) return;
+    legacyImportStarted.current = true;
+
+    let backup: unknown;
+    try {
+      backup = JSON.parse(stored);
+    } catch {
+      backup = null;
+    }
+    const entries = Array.isArray(backup) ? backup : [];
+    const readable = entries.filter((entry) => backupCalculationSchema.safeParse(entry).success);
+    const skipped = entries.length - readable.length;
+    const skippedNote = skipped > 0 ? ` ${skipped} could not be read and were dropped.` : "";
+    if (readable.length === 0) {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      if (skipped > 0) {
+        toast({
+          title: "Could Not Move Old Calculations",
+          description: `None of the ${skipped} calculations saved in this browser could be read`,
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+
+    apiRequest("POST", "/api/calculations/restore", { campaignId, backup: readable })
+      .then(async (res) => {
+        const report = (await res.json()) as RestoreReport;
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        queryClient.invalidateQueries({ queryKey: ["/api/calculations"] });
+        toast({
+          title: "Calculations Moved",
+          description: `${report.restored + report.unchanged} calculations saved in this browser are now in your account.${skippedNote}`,
+          variant: "success",
+        });
+      })
+      .catch((error: Error) => {
+        // fetch throws a TypeError when the server could not be reached; try
+        // again on the next visit then, but not after the server refused them
+        const unreachable = error instanceof TypeError;
+        if (!unreachable) {
+          localStorage.removeItem(LEGACY_STORAGE_KEY);
+        }
+        toast({
+          title: "Could Not Move Old Calculations",
+          description: unreachable ? `They are still in this browser: ${error.message}` : error.message,
+          variant: "destructive",
+        });
+      });
+  }, [user, campaignId]);
+
+  // Load the signed-in GM's saved calculations from the server
+  const { data: savedCalculations = [] } = useQuery<SavedCalculation[], Error, SavedCalculation[]>({
+    queryKey: ["/api/calculations"],
+    enabled: !!user,
+    // Convert string dates to Date objects
+    select: (calculations) =>
+      calculations.map((calc) => ({
+        ...calc,
+        date: new Date(calc.date),
+        awardedAt: calc.awardedAt && new Date(calc.awardedAt),
+      })),
+  });
+
+  const { data: roster = [] } = useQuery<RosterCharacterWithXp[]>({
+    queryKey: [`/api/campaigns/${campaignId}/characters`],
+    enabled: !!user && campaignId !== null,
+  });
+
+  // Until the XP is awarded, preview who would level up from the roster's
+  // current totals; afterwards, keep showing what the award did
+  const campaign = campaigns.find((camp) => camp.id === campaignId);
+  // Signed out there is no campaign, so the default ruleset applies
+  const ruleset = sharedRuleset ?? resolveRuleset(campaign?.ruleset, campaign?.customRuleset);
+  const progress = new Map<number, CharacterProgress>();
+  characters.forEach((char) => {
+    const rosterCharacter = roster.find((rosterChar) => rosterChar.id === char.rosterCharacterId);
+    const table = findAdvancementTable(rosterCharacter?.characterClass, campaign?.advancementTables);
+    if (rosterCharacter && table) {
+      progress.set(char.id, { totalXp: rosterCharacter.totalXp, table });
+    }
+  });
+  const levelUps = savedCalculation?.awardedAt
+    ? awardedLevelUps
+    : result
+      ? detectLevelUps(characters, result, progress)
+      : [];
+
+  const filteredCalculations = savedCampaignFilter === "all"
+    ? savedCalculations
+    : savedCalculations.filter((calc) => calc.campaignId === Number(savedCampaignFilter));
+
+  const saveMutation = useMutation({
+    mutationFn: async (calculation: SaveCalculationInput) => {
+      const res = await apiRequest("POST", "/api/calculations", calculation);
+      return (await res.json()) as SavedCalculation;
+    },
+    onSuccess: (saved) => {
+      // The server works the XP out under the campaign's ruleset, which a
+      // permalink's ruleset may not match; show what was stored
+      setCharacters(saved.characters);
+      setMonsters(saved.monsters);
+      setResult(saved.result);
+      setSharedRuleset(null);
+      setSavedCalculation({ ...saved, date: new Date(saved.date) });
+      queryClient.invalidateQueries({ queryKey: ["/api/calculations"] });
+      toast({
+        title: "Calculation Saved",
+        description: "Your calculation has been saved",
+        variant: "default",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Could not save the calculation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const awardMutation = useMutation({
+    mutationFn: (calculation: SavedCalculation) =>
+      apiRequest("POST", `/api/calculations/${calculation.id}/award`),
+    onSuccess: (_res, calculation) => {
+      // The server bumps levelled characters' HD; mirror that in the party form
+      levelUps.forEach((levelUp) => {
+        form.setValue(`characters.${levelUp.characterId - 1}.hitDice`, levelUp.hitDice);
+        form.setValue(`characters.${levelUp.characterId - 1}.modifier`, levelUp.modifier);
+      });
+      setAwardedLevelUps(levelUps);
+      setSavedCalculation({ ...calculation, awardedAt: new Date() });
+      queryClient.invalidateQueries({ queryKey: ["/api/calculations"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${calculation.campaignId}/characters`] });
+      toast({
+        title: "XP Awarded",
+        description: "Each roster character's XP has been added to their ledger",
+        variant: "success",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Award Failed",
+        description: "Could not award XP to the roster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/calculations/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calculations"] });
+      toast({
+        title: "Calculation Deleted",
+        description: "The saved calculation has been deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete the saved calculation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (restore: RestoreBackupInput) => {
+      const res = await apiRequest("POST", "/api/calculations/restore", restore);
+      return (await res.json()) as RestoreReport;
+    },
+    onSuccess: (report, restore) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calculations"] });
+      if (report.conflicts.length > 0) {
+        setRestoreConflicts({ backup: restore.backup, report });
+        return;
       }
+      setRestoreConflicts(null);
+      toast({
+        title: "Backup Restored",
+        description: `${report.restored} restored, ${report.unchanged} already saved`,
+        variant: "success",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Restore Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exportBackup = async () => {
+    try {
+      const res = await apiRequest("GET", "/api/calculations/backup");
+      downloadFile(
+        JSON.stringify(await res.json(), null, 2),
+        `xp-calculations-${format(new Date(), "yyyy-MM-dd")}.json`,
+        "application/json",
+      );
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: "Could not export the saved calculations",
+        variant: "destructive",
+      });
     }
-  }, []);
+  };
+
+  // Check the file here first so a wrong file is named before anything is sent
+  const restoreBackup = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    let backup: unknown;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch {
+      backup = null;
+    }
+    const read = readBackup(backup);
+    if (!read.ok) {
+      toast({ title: "Invalid Backup", description: read.error, variant: "destructive" });
+      return;
+    }
+    if (campaignId === null) {
+      toast({
+        title: "No Campaign",
+        description: "Create a campaign to restore the calculations into",
+        variant: "destructive",
+      });
+      return;
+    }
+    restoreMutation.mutate({ campaignId, backup });
+  };
 
   // Setup form
   const form = useForm<z.infer<typeof calculatorSchema>>({
     resolver: zodResolver(calculatorSchema),
     defaultValues: {
-      characters: [{ name: "", hitDice: 1, modifier: 0 }],
-      monsters: [{ name: "", hitDice: 1, modifier: 0, count: 1 }],
+      characters: [{ name: "", role: "pc", status: "present", hitDice: 1, modifier: 0, treasureShare: 1 }],
+      monsters: [{ name: "", hitDice: 1, modifier: 0, specialAbilities: 0, count: 1 }],
+      treasure: emptyTreasure,
     },
   });
 
-  const onSubmit = (data: z.infer<typeof calculatorSchema>) => {
+  const splitByShares = form.watch("treasure.split") === "shares";
+
+  const runCalculation = (data: z.infer<typeof calculatorSchema>, rules: RulesetDefinition) => {
     // Reset previous state
     setCharacters([]);
     setMonsters([]);
+    setTreasure(null);
     setResult(null);
+    setSavedCalculation(null);
     
-    // Process characters
-    const newCharacters = data.characters.map((char, index) => {
-      const effectiveHD = calculateEffectiveHitDice(char.hitDice, char.modifier);
-      return {
-        id: index + 1,
-        name: char.name || `Character ${index + 1}`,
-        hitDice: char.hitDice,
-        modifier: char.modifier,
-        effectiveHitDice: effectiveHD,
-      };
-    });
-    
-    // Process monsters
-    const newMonsters = data.monsters.map((monster, index) => {
-      const effectiveHD = calculateEffectiveHitDice(monster.hitDice, monster.modifier);
-      return {
-        id: index + 1,
-        name: monster.name || `Monster ${index + 1}`,
-        hitDice: monster.hitDice,
-        modifier: monster.modifier,
-        count: monster.count,
-        effectiveHitDice: effectiveHD,
-      };
-    });
-    
-    // Calculate party stats
-    const totalPartyHitDice = newCharacters.reduce((total, char) => total + char.effectiveHitDice, 0);
-    const averagePartyLevel = totalPartyHitDice / newCharacters.length;
-    
-    // Calculate monster stats
-    const totalMonsterCount = newMonsters.reduce((total, monster) => total + monster.count, 0);
-    const totalMonsterHitDice = newMonsters.reduce(
-      (total, monster) => total + monster.effectiveHitDice * monster.count, 
-      0
+    // An empty treasure section means a fight with nothing to loot
+    const newTreasure = data.treasure && calculateTreasureValue(data.treasure) > 0 ? data.treasure : null;
+
+    // Run the shared XP engine
+    const { characters: newCharacters, monsters: newMonsters, result: newResult } = calculate(
+      data.characters,
+      data.monsters,
+      rules,
+      newTreasure,
     );
-    const averageMonsterLevel = totalMonsterCount > 0 
-      ? totalMonsterHitDice / totalMonsterCount 
-      : 0;
-    
-    // Calculate overall adjustment factor (for display only)
-    const overallAdjustmentFactor = calculateAdjustmentFactor(averagePartyLevel, averageMonsterLevel);
-    
-    // Following the exact 4 steps as instructed:
-    const characterXp = newCharacters.map(char => {
-      // Process each monster's contribution to this character
-      const monsterContributions = newMonsters.map(monster => {
-        // Step 1: Calculate total XP for this monster
-        const monsterTotalXp = monster.effectiveHitDice * monster.count * 100;
-        
-        // Step 2: Divide by number of party members with rounding
-        const perCharacterShare = Math.floor(monsterTotalXp / newCharacters.length);
-        
-        // Step 3: Calculate adjustment factor for this character vs this monster
-        const adjustmentFactor = calculateAdjustmentFactor(char.effectiveHitDice, monster.effectiveHitDice);
-        
-        // Step 4: Calculate the final adjusted XP for this monster
-        const adjustedXp = Math.floor(perCharacterShare * adjustmentFactor);
-        
-        return {
-          monsterId: monster.id,
-          monsterName: monster.name,
-          baseXp: perCharacterShare,
-          adjustmentFactor: adjustmentFactor,
-          adjustedXp: adjustedXp
-        };
-      });
-      
-      // Sum up all monster contributions for this character
-      const totalCharacterXp = monsterContributions.reduce((sum, contrib) => sum + contrib.adjustedXp, 0);
-      
-      // Calculate the overall adjustment factor across all monsters for this character
-      const totalBaseXp = monsterContributions.reduce((sum, contrib) => sum + contrib.baseXp, 0);
-      const charAdjustmentFactor = totalBaseXp > 0 ? totalCharacterXp / totalBaseXp : 0;
-      
-      return {
-        characterId: char.id,
-        effectiveHitDice: char.effectiveHitDice,
-        adjustmentFactor: charAdjustmentFactor,
-        adjustedXp: totalCharacterXp,
-        monsterContributions: monsterContributions
-      };
-    });
-    
-    // Calculate total XP and per-character averages
-    // Total XP is always monster hit dice * 100
-    const totalXp = totalMonsterHitDice * 100;
-    // Base XP per character is always total XP / number of characters
-    const xpPerCharacter = totalXp / newCharacters.length;
     
     // Set state with all calculated values
     setCharacters(newCharacters);
     setMonsters(newMonsters);
-    setResult({
-      totalPartyHitDice,
-      totalMonsterHitDice,
-      totalXp,
-      xpPerCharacter,
-      averagePartyLevel,
-      adjustmentFactor: overallAdjustmentFactor,
-      characterXp,
-    });
+    setTreasure(newTreasure);
+    setResult(newResult);
     
     toast({
       title: "Calculation Complete",
-      description: `Total XP: ${totalXp.toLocaleString()} XP`,
+      description: `Total XP: ${newResult.totalXp.toLocaleString()} XP`,
       variant: "default",
     });
   };
 
+  const onSubmit = (data: z.infer<typeof calculatorSchema>) => runCalculation(data, ruleset);
+
+  // Open a calculation shared as a permalink, then drop it from the address
+  // bar so later edits are not mistaken for the shared version
+  useEffect(() => {
+    const encoded = new URLSearchParams(search).get(PERMALINK_PARAM);
+    if (!encoded) return;
+    const shared = decodePermalink(encoded);
+    if (shared) {
+      form.reset({ ...shared.input, treasure: shared.input.treasure ?? emptyTreasure });
+      setSharedRuleset(shared.ruleset);
+      runCalculation(shared.input, shared.ruleset);
+    } else {
+      toast({
+        title: "Invalid Link",
+        description: "That link does not hold a calculation",
+        variant: "destructive",
+      });
+    }
+    setLocation("/", { replace: true });
+  }, [search]);
+
+  // Copy a link that opens this exact form, ruleset included
+  const copyPermalink = async () => {
+    const encoded = encodePermalink(form.getValues(), ruleset);
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/?${PERMALINK_PARAM}=${encoded}`);
+      toast({
+        title: "Link Copied",
+        description: "Anyone with the link can open and tweak this calculation",
+        variant: "success",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy Failed",
+        description: "Could not copy the link to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Copy a roster character into a party slot and link the slot to them, so
+  // awarding XP later posts to their ledger
+  const fillFromRoster = (index: number, value: string) => {
+    const character = form.getValues(`characters.${index}`);
+    const rosterCharacter = roster.find((rosterChar) => rosterChar.id === Number(value));
+    form.setValue(
+      `characters.${index}`,
+      rosterCharacter
+        ? {
+            ...character,
+            name: rosterCharacter.name,
+            hitDice: rosterCharacter.hitDice,
+            modifier: rosterCharacter.modifier,
+            rosterCharacterId: rosterCharacter.id,
+          }
+        : { ...character, rosterCharacterId: undefined },
+    );
+  };
+
   const addCharacter = () => {
     const characters = form.getValues("characters");
-    form.setValue("characters", [...characters, { name: "", hitDice: 1, modifier: 0 }]);
+    form.setValue("characters", [...characters, { name: "", role: "pc", status: "present", hitDice: 1, modifier: 0, treasureShare: 1 }]);
   };
 
   const removeCharacter = (index: number) => {
@@ -350,12 +591,48 @@ export default function Home() {
         "characters",
         characters.filter((_, i) => i !== index)
       );
+      // Character ids are positions, so later characters move up by one
+      const removedId = index + 1;
+      form.setValue(
+        "monsters",
+        form.getValues("monsters").map((monster) => ({
+          ...monster,
+          participants: monster.participants
+            ?.filter((id) => id !== removedId)
+            .map((id) => (id > removedId ? id - 1 : id)),
+        })),
+      );
     }
   };
 
+  // Tick or untick one character for one monster. Once everyone is ticked
+  // again the list is dropped, meaning the whole party fought it.
+  const toggleParticipant = (monsterIndex: number, characterId: number, checked: boolean) => {
+    const characterIds = form.getValues("characters").map((_, i) => i + 1);
+    const current = form.getValues(`monsters.${monsterIndex}.participants`) ?? characterIds;
+    const participants = checked
+      ? characterIds.filter((id) => id === characterId || current.includes(id))
+      : current.filter((id) => id !== characterId);
+    form.setValue(
+      `monsters.${monsterIndex}.participants`,
+      participants.length === characterIds.length ? undefined : participants,
+    );
+  };
+
+  const fillFromTemplate = (index: number, template: MonsterTemplate) => {
+    const { name, hitDice, modifier, specialAbilities } = template;
+    form.setValue(`monsters.${index}`, {
+      ...form.getValues(`monsters.${index}`),
+      name,
+      hitDice,
+      modifier,
+      specialAbilities,
+    });
+  };
+
   const addMonster = () => {
     const monsters = form.getValues("monsters");
-    form.setValue("monsters", [...monsters, { name: "", hitDice: 1, modifier: 0, count: 1 }]);
+    form.setValue("monsters", [...monsters, { name: "", hitDice: 1, modifier: 0, specialAbilities: 0, count: 1 }]);
   };
 
   const removeMonster = (index: number) => {
@@ -370,19 +647,52 @@ export default function Home() {
 
   const resetForm = () => {
     form.reset({
-      characters: [{ name: "", hitDice: 1, modifier: 0 }],
-      monsters: [{ name: "", hitDice: 1, modifier: 0, count: 1 }],
+      characters: [{ name: "", role: "pc", status: "present", hitDice: 1, modifier: 0, treasureShare: 1 }],
+      monsters: [{ name: "", hitDice: 1, modifier: 0, specialAbilities: 0, count: 1 }],
+      treasure: emptyTreasure,
     });
     setCharacters([]);
     setMonsters([]);
+    setTreasure(null);
     setResult(null);
+    setSavedCalculation(null);
+    setSharedRuleset(null);
+    setShowReport(false);
     toast({
       title: "Form Reset",
       description: "Calculator has been reset to default values",
     });
   };
 
+  // Results follow the ruleset of the campaign they would be saved into, so
+  // the shown XP is what saving stores
+  const chooseCampaign = (id: number) => {
+    setCampaignId(id);
+    setSharedRuleset(null);
+    if (!result) return;
+    const chosen = campaigns.find((camp) => camp.id === id);
+    const recalculated = calculate(
+      characters,
+      monsters,
+      resolveRuleset(chosen?.ruleset, chosen?.customRuleset),
+      treasure,
+    );
+    setCharacters(recalculated.characters);
+    setMonsters(recalculated.monsters);
+    setResult(recalculated.result);
+    setSavedCalculation(null);
+  };
+
   const saveCalculation = () => {
+    if (!user) {
+      toast({
+        title: "Sign In Required",
+        description: "Sign in to save calculations",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!result || characters.length === 0 || monsters.length === 0) {
       toast({
         title: "Nothing to Save",
@@ -392,50 +702,57 @@ export default function Home() {
       return;
     }
 
-    const newSavedCalculation: SavedCalculation = {
-      id: Date.now().toString(),
-      date: new Date(),
-      characters,
-      monsters,
-      result,
-    };
-
-    const updatedSaved = [...savedCalculations, newSavedCalculation];
-    setSavedCalculations(updatedSaved);
-    localStorage.setItem("odnd-xp-calculations", JSON.stringify(updatedSaved));
+    if (campaignId === null) {
+      toast({
+        title: "No Campaign",
+        description: "Create a campaign to save calculations into",
+        variant: "destructive",
+      });
+      return;
+    }
 
-    toast({
-      title: "Calculation Saved",
-      description: "Your calculation has been saved",
-      variant: "default",
-    });
+    // The server re-runs the engine on the inputs that produced this result
+    saveMutation.mutate({ campaignId, characters, monsters, treasure });
   };
 
   const loadCalculation = (savedCalc: SavedCalculation) => {
     // Convert saved data to form values
     const characterFormValues = savedCalc.characters.map((char) => ({
       name: char.name,
+      rosterCharacterId: char.rosterCharacterId,
+      role: char.role,
+      status: char.status,
       hitDice: char.hitDice,
       modifier: char.modifier,
+      treasureShare: char.treasureShare,
+      primeRequisite: char.primeRequisite,
+      xpBonus: char.xpBonus,
     }));
 
     const monsterFormValues = savedCalc.monsters.map((monster) => ({
       name: monster.name,
       hitDice: monster.hitDice,
       modifier: monster.modifier,
+      specialAbilities: monster.specialAbilities,
       count: monster.count,
+      participants: monster.participants,
     }));
 
     // Reset form with saved values
     form.reset({
       characters: characterFormValues,
       monsters: monsterFormValues,
+      treasure: savedCalc.treasure ?? emptyTreasure,
     });
 
     // Restore calculation state
     setCharacters(savedCalc.characters);
     setMonsters(savedCalc.monsters);
+    setTreasure(savedCalc.treasure);
     setResult(savedCalc.result);
+    setSavedCalculation(savedCalc);
+    setCampaignId(savedCalc.campaignId);
+    setSharedRuleset(null);
 
     // Close saved calculations panel
     setShowSaved(false);
@@ -446,23 +763,15 @@ export default function Home() {
     });
   };
 
-  const deleteCalculation = (id: string, e: React.MouseEvent) => {
+  const deleteCalculation = (id: number, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent triggering the load action
-    
-    const updatedSaved = savedCalculations.filter((calc) => calc.id !== id);
-    setSavedCalculations(updatedSaved);
-    localStorage.setItem("odnd-xp-calculations", JSON.stringify(updatedSaved));
-
-    toast({
-      title: "Calculation Deleted",
-      description: "The saved calculation has been deleted",
-    });
+    deleteMutation.mutate(id);
   };
 
   return (
     <div className="container mx-auto py-8 px-4">
-      <Card className="w-full max-w-4xl mx-auto">
-        <CardHeader>
+      <Card className="w-full max-w-4xl mx-auto print:border-0 print:shadow-none">
+        <CardHeader className="print:hidden">
           <div className="flex items-center justify-between">
             <div>
               <CardTitle className="text-3xl">Primeval Arcana Party XP Calculator</CardTitle>
@@ -485,6 +794,43 @@ export default function Home() {
                 <RotateCcw className="h-4 w-4 mr-2" />
                 Reset
               </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/campaigns">
+                  <BookOpen className="h-4 w-4 mr-2" />
+                  Campaigns
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/sessions">
+                  <Layers className="h-4 w-4 mr-2" />
+                  Sessions
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/bestiary">
+                  <Skull className="h-4 w-4 mr-2" />
+                  Bestiary
+                </Link>
+              </Button>
+              {user ? (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  title={`Signed in as ${user.username}`}
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign Out
+                </Button>
+              ) : (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/auth">
+                    <LogIn className="h-4 w-4 mr-2" />
+                    Sign In
+                  </Link>
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -492,12 +838,51 @@ export default function Home() {
         <CardContent>
           {showSaved ? (
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Saved Calculations</h3>
-              {savedCalculations.length === 0 ? (
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold">Saved Calculations</h3>
+                {user && campaigns.length > 0 && (
+                  <div className="flex gap-2">
+                    <Select value={savedCampaignFilter} onValueChange={setSavedCampaignFilter}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All campaigns</SelectItem>
+                        {campaigns.map((campaign) => (
+                          <SelectItem key={campaign.id} value={campaign.id.toString()}>
+                            {campaign.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={exportBackup}
+                      disabled={savedCalculations.length === 0}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Export All
+                    </Button>
+                    <Button type="button" variant="outline" disabled={restoreMutation.isPending} asChild>
+                      <label className="cursor-pointer">
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import
+                        <input type="file" accept=".json,application/json" className="hidden" onChange={restoreBackup} />
+                      </label>
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {!user ? (
+                <p className="text-sm text-muted-foreground">
+                  <Link href="/auth" className="underline">Sign in</Link> to see your saved calculations.
+                </p>
+              ) : filteredCalculations.length === 0 ? (
                 <p className="text-sm text-muted-foreground">No saved calculations yet.</p>
               ) : (
                 <div className="space-y-2">
-                  {savedCalculations.map((calc) => (
+                  {filteredCalculations.map((calc) => (
                     <Card 
                       key={calc.id} 
                       className="cursor-pointer hover:bg-secondary/50"
@@ -506,7 +891,12 @@ export default function Home() {
                       <CardContent className="p-4">
                         <div className="flex justify-between items-center">
                           <div>
-                            <p className="font-medium">{format(calc.date, "PPp")}</p>
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium">{format(calc.date, "PPp")}</p>
+                              <Badge variant="outline">
+                                {campaigns.find((campaign) => campaign.id === calc.campaignId)?.name}
+                              </Badge>
+                            </div>
                             <p className="text-sm text-muted-foreground">
                               {calc.characters.length} characters 
                               {calc.characters.some(c => c.name) ? 
@@ -535,9 +925,35 @@ export default function Home() {
                 </div>
               )}
             </div>
+          ) : showReport && reportInput() ? (
+            <PrintReport
+              input={reportInput()!}
+              campaignName={campaign?.name}
+              date={savedCalculation?.date ?? new Date()}
+              onClose={() => setShowReport(false)}
+            />
           ) : (
             <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 print:hidden">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="hd-notation"
+                    checked={hdNotation}
+                    onCheckedChange={(checked) => setHdNotation(checked === true)}
+                  />
+                  <Label htmlFor="hd-notation">Enter hit dice as notation (3+3, ½, 7**)</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => setImportingCsv(true)}
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import CSV
+                  </Button>
+                </div>
+
                 {/* Characters Section */}
                 <div>
                   <div className="flex justify-between items-center mb-4">
@@ -557,7 +973,72 @@ export default function Home() {
                     {form.watch("characters").map((character, index) => (
                       <Card key={index}>
                         <CardContent className="p-4">
-                          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                          <div className="mb-4 flex flex-col md:flex-row gap-4">
+                            {roster.length > 0 && (
+                              <Select
+                                value={character.rosterCharacterId?.toString() ?? "none"}
+                                onValueChange={(value) => fillFromRoster(index, value)}
+                              >
+                                <SelectTrigger className="w-full md:w-64">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">Not on roster</SelectItem>
+                                  {roster.map((rosterChar) => (
+                                    <SelectItem key={rosterChar.id} value={rosterChar.id.toString()}>
+                                      {rosterChar.name} ({formatHitDice(rosterChar.hitDice, rosterChar.modifier)})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                            <FormField
+                              control={form.control}
+                              name={`characters.${index}.role`}
+                              render={({ field }) => (
+                                <FormItem className="space-y-0">
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger className="w-full md:w-40">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {participantRoles.map((role) => (
+                                        <SelectItem key={role} value={role}>
+                                          {participantRoleNames[role]} ({ruleset.shareWeights[role]} share)
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`characters.${index}.status`}
+                              render={({ field }) => (
+                                <FormItem className="space-y-0">
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger className="w-full md:w-56">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {characterStatuses.map((status) => (
+                                        <SelectItem key={status} value={status}>
+                                          {characterStatusNames[status]}
+                                          {status !== "present" && ` (${shareHandlingNames[ruleset.statusHandling[status]]})`}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+                          <div className={`grid grid-cols-1 gap-4 ${splitByShares ? "md:grid-cols-7" : "md:grid-cols-6"}`}>
                             <FormField
                               control={form.control}
                               name={`characters.${index}.name`}
@@ -576,18 +1057,77 @@ export default function Home() {
                               )}
                             />
                             
+                            {hdNotation ? (
+                              <HitDiceNotationInput
+                                id={`character-${index}-hd`}
+                                className="md:col-span-2"
+                                hitDice={character.hitDice}
+                                modifier={character.modifier}
+                                allowAbilities={false}
+                                onChange={(parsed) => {
+                                  // Unreadable notation leaves no hit dice, so submitting is refused
+                                  form.setValue(`characters.${index}.hitDice`, parsed?.hitDice ?? NaN);
+                                  if (parsed) form.setValue(`characters.${index}.modifier`, parsed.modifier);
+                                }}
+                              />
+                            ) : (
+                              <>
+                                <FormField
+                                  control={form.control}
+                                  name={`characters.${index}.hitDice`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Hit Dice</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          type="number"
+                                          min={0}
+                                          step="any"
+                                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                          value={field.value}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                            
+                                <FormField
+                                  control={form.control}
+                                  name={`characters.${index}.modifier`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Modifier</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          type="number"
+                                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                          value={field.value}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </>
+                            )}
+
                             <FormField
                               control={form.control}
-                              name={`characters.${index}.hitDice`}
+                              name={`characters.${index}.primeRequisite`}
                               render={({ field }) => (
                                 <FormItem>
-                                  <FormLabel>Hit Dice</FormLabel>
+                                  <FormLabel>Prime Req.</FormLabel>
                                   <FormControl>
                                     <Input
                                       type="number"
-                                      min={1}
-                                      onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
-                                      value={field.value}
+                                      min={3}
+                                      max={18}
+                                      placeholder="—"
+                                      onChange={(e) =>
+                                        field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value))
+                                      }
+                                      value={field.value ?? ""}
                                     />
                                   </FormControl>
                                   <FormMessage />
@@ -597,22 +1137,48 @@ export default function Home() {
                             
                             <FormField
                               control={form.control}
-                              name={`characters.${index}.modifier`}
+                              name={`characters.${index}.xpBonus`}
                               render={({ field }) => (
                                 <FormItem>
-                                  <FormLabel>Modifier</FormLabel>
+                                  <FormLabel>XP Bonus %</FormLabel>
                                   <FormControl>
                                     <Input
                                       type="number"
-                                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                                      value={field.value}
+                                      placeholder="—"
+                                      onChange={(e) =>
+                                        field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))
+                                      }
+                                      value={field.value ?? ""}
                                     />
                                   </FormControl>
+                                  <FormDescription className="text-xs">Overrides prime req.</FormDescription>
                                   <FormMessage />
                                 </FormItem>
                               )}
                             />
                             
+                            {splitByShares && (
+                              <FormField
+                                control={form.control}
+                                name={`characters.${index}.treasureShare`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Treasure Share</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min={0}
+                                        step={0.5}
+                                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                        value={field.value}
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            )}
+                            
                             <div className="flex items-end">
                               <Button
                                 type="button"
@@ -654,7 +1220,11 @@ export default function Home() {
                     {form.watch("monsters").map((monster, index) => (
                       <Card key={index}>
                         <CardContent className="p-4">
-                          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                          <MonsterQuickAdd
+                            className="mb-4"
+                            onSelect={(template) => fillFromTemplate(index, template)}
+                          />
+                          <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
                             <FormField
                               control={form.control}
                               name={`monsters.${index}.name`}
@@ -673,43 +1243,82 @@ export default function Home() {
                               )}
                             />
                             
-                            <FormField
-                              control={form.control}
-                              name={`monsters.${index}.hitDice`}
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Hit Dice</FormLabel>
-                                  <FormControl>
-                                    <Input
-                                      type="number"
-                                      min={1}
-                                      onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
-                                      value={field.value}
-                                    />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
+                            {hdNotation ? (
+                              <HitDiceNotationInput
+                                id={`monster-${index}-hd`}
+                                className="md:col-span-3"
+                                hitDice={monster.hitDice}
+                                modifier={monster.modifier}
+                                specialAbilities={monster.specialAbilities}
+                                onChange={(parsed) => {
+                                  form.setValue(`monsters.${index}.hitDice`, parsed?.hitDice ?? NaN);
+                                  if (parsed) {
+                                    form.setValue(`monsters.${index}.modifier`, parsed.modifier);
+                                    form.setValue(`monsters.${index}.specialAbilities`, parsed.specialAbilities);
+                                  }
+                                }}
+                              />
+                            ) : (
+                              <>
+                                <FormField
+                                  control={form.control}
+                                  name={`monsters.${index}.hitDice`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Hit Dice</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          type="number"
+                                          min={0}
+                                          step="any"
+                                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                          value={field.value}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
                             
-                            <FormField
-                              control={form.control}
-                              name={`monsters.${index}.modifier`}
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Modifier</FormLabel>
-                                  <FormControl>
-                                    <Input
-                                      type="number"
-                                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                                      value={field.value}
-                                    />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
+                                <FormField
+                                  control={form.control}
+                                  name={`monsters.${index}.modifier`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Modifier</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          type="number"
+                                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                          value={field.value}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
                             
+                                <FormField
+                                  control={form.control}
+                                  name={`monsters.${index}.specialAbilities`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Abilities (*)</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          type="number"
+                                          min={0}
+                                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                          value={field.value}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </>
+                            )}
+
                             <FormField
                               control={form.control}
                               name={`monsters.${index}.count`}
@@ -749,7 +1358,283 @@ export default function Home() {
                   </div>
                 </div>
                 
+                {form.watch("characters").length > 1 && (
+                  <>
+                    <Separator />
+                    
+                    {/* Participation Section */}
+                    <div className="space-y-4">
+                      <div>
+                        <h3 className="text-lg font-semibold">Participation</h3>
+                        <p className="text-sm text-muted-foreground">
+                          Untick anyone who sat a fight out; that monster's XP is split among the rest
+                        </p>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Monster</TableHead>
+                            {form.watch("characters").map((character, charIndex) => (
+                              <TableHead key={charIndex} className="text-center">
+                                {character.name || `Character ${charIndex + 1}`}
+                              </TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {form.watch("monsters").map((monster, monsterIndex) => (
+                            <TableRow key={monsterIndex}>
+                              <TableCell>
+                                {monster.name || `Monster ${monsterIndex + 1}`}
+                                <FormField
+                                  control={form.control}
+                                  name={`monsters.${monsterIndex}.participants`}
+                                  render={() => (
+                                    <FormItem>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </TableCell>
+                              {form.watch("characters").map((_, charIndex) => (
+                                <TableCell key={charIndex} className="text-center">
+                                  <Checkbox
+                                    checked={!monster.participants || monster.participants.includes(charIndex + 1)}
+                                    onCheckedChange={(checked) =>
+                                      toggleParticipant(monsterIndex, charIndex + 1, checked === true)
+                                    }
+                                  />
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </>
+                )}
+                
+                <Separator />
+                
+                {/* Treasure Section */}
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold">Treasure</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="treasure.coins.cp"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>cp</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="treasure.coins.sp"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>sp</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="treasure.coins.ep"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>ep</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="treasure.coins.gp"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>gp</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="treasure.coins.pp"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>pp</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="treasure.gems"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Gems (gp)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="treasure.jewelry"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Jewelry (gp)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="treasure.magicItems"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Magic Items (gp)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="treasure.xpPerGp"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>XP per GP</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              value={field.value}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="treasure.split"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Split</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="even">Even split</SelectItem>
+                              <SelectItem value="shares">By shares</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+                
                 <div className="flex justify-end gap-4">
+                  {user && campaigns.length > 0 && (
+                    <Select
+                      value={campaignId?.toString()}
+                      onValueChange={(value) => chooseCampaign(Number(value))}
+                    >
+                      <SelectTrigger className="w-full sm:w-48">
+                        <SelectValue placeholder="Campaign" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {campaigns.map((campaign) => (
+                          <SelectItem key={campaign.id} value={campaign.id.toString()}>
+                            {campaign.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  
                   <Button 
                     type="submit" 
                     className="w-full sm:w-auto"
@@ -763,7 +1648,7 @@ export default function Home() {
                     variant="outline" 
                     className="w-full sm:w-auto"
                     onClick={saveCalculation}
-                    disabled={!result}
+                    disabled={!result || !user || campaignId === null || saveMutation.isPending}
                   >
                     <Save className="h-4 w-4 mr-2" />
                     Save
@@ -774,20 +1659,94 @@ export default function Home() {
           )}
           
           {/* Results Section */}
-          {result && !showSaved && (
+          {result && !showSaved && !showReport && (
             <div className="mt-8">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-semibold">Results</h3>
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  size="sm"
-                  onClick={copyToClipboard}
-                  disabled={copying}
-                >
-                  {copying ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
-                  {copying ? "Copied!" : "Copy to Clipboard"}
-                </Button>
+                <div className="flex space-x-2 print:hidden">
+                  {savedCalculation && characters.some((char) => char.rosterCharacterId !== undefined) && (
+                    <Button 
+                      type="button" 
+                      variant="outline" 
+                      size="sm"
+                      onClick={() => awardMutation.mutate(savedCalculation)}
+                      disabled={!!savedCalculation.awardedAt || awardMutation.isPending}
+                    >
+                      <Award className="h-4 w-4 mr-2" />
+                      {savedCalculation.awardedAt ? "XP Awarded" : "Award XP"}
+                    </Button>
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button type="button" variant="outline" size="sm" disabled={copying}>
+                        {copying ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+                        {copying ? "Copied!" : "Copy to Clipboard"}
+                        <ChevronDown className="h-4 w-4 ml-2" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Copy as</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {exporters.map((exporter) => (
+                        <DropdownMenuItem
+                          key={exporter.id}
+                          className="flex-col items-start"
+                          onSelect={() => copyExport(exporter.id)}
+                        >
+                          <span>{exporter.name}</span>
+                          <span className="text-xs text-muted-foreground">{exporter.description}</span>
+                        </DropdownMenuItem>
+                      ))}
+                      {campaign && campaign.clipboardTemplates.length > 0 && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuLabel>{campaign.name} Templates</DropdownMenuLabel>
+                          {campaign.clipboardTemplates.map((template) => (
+                            <DropdownMenuItem key={template.id} onSelect={() => copyTemplate(template)}>
+                              {template.name}
+                            </DropdownMenuItem>
+                          ))}
+                        </>
+                      )}
+                      {campaign && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onSelect={() => setEditingTemplates(true)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit Templates…
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={copyPermalink}
+                  >
+                    <Share2 className="h-4 w-4 mr-2" />
+                    Copy Link
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={downloadCsv}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download CSV
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowReport(true)}
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    Report
+                  </Button>
+                </div>
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -797,6 +1756,10 @@ export default function Home() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Ruleset:</span>
+                        <span className="font-medium">{ruleset.name}</span>
+                      </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Total Party Hit Dice:</span>
                         <span className="font-medium">{result.totalPartyHitDice.toFixed(2)}</span>
@@ -805,7 +1768,25 @@ export default function Home() {
                         <span className="text-muted-foreground">Total Monster Hit Dice:</span>
                         <span className="font-medium">{result.totalMonsterHitDice.toFixed(2)}</span>
                       </div>
+                      {treasure && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Treasure Value:</span>
+                          <span className="font-medium">{result.treasureValue.toLocaleString()} gp</span>
+                        </div>
+                      )}
                       <Separator className="my-2" />
+                      {treasure && (
+                        <>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Monster XP:</span>
+                            <span className="font-medium">{result.monsterXp.toLocaleString()} XP</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Treasure XP:</span>
+                            <span className="font-medium">{result.treasureXp.toLocaleString()} XP</span>
+                          </div>
+                        </>
+                      )}
                       <div className="flex justify-between font-medium text-lg">
                         <span>Total XP:</span>
                         <span className="text-primary">{result.totalXp.toLocaleString()} XP</span>
@@ -826,15 +1807,31 @@ export default function Home() {
                     <div className="space-y-4">
                       {result.characterXp.map((charXp) => {
                         const character = characters.find(c => c.id === charXp.characterId);
+                        const levelUp = levelUps.find((lvl) => lvl.characterId === charXp.characterId);
                         return (
                           <div key={charXp.characterId} className="border rounded-lg p-3">
                             <div className="flex justify-between items-center mb-2">
                               <span className="font-medium">
                                 {character && character.name ? character.name : `Character ${charXp.characterId}`}
                               </span>
-                              <Badge>
-                                {character && formatHitDice(character.hitDice, character.modifier)}
-                              </Badge>
+                              <div className="flex items-center gap-2">
+                                {character && character.role !== "pc" && (
+                                  <Badge variant="secondary">{participantRoleNames[character.role]}</Badge>
+                                )}
+                                {character && character.status !== "present" && (
+                                  <Badge variant={character.status === "dead" ? "destructive" : "secondary"}>
+                                    {characterStatusNames[character.status]}
+                                  </Badge>
+                                )}
+                                {levelUp && (
+                                  <Badge variant="outline" className="border-primary text-primary">
+                                    Level up! {levelUp.fromLevel} → {levelUp.toLevel}
+                                  </Badge>
+                                )}
+                                <Badge>
+                                  {character && formatHitDice(character.hitDice, character.modifier)}
+                                </Badge>
+                              </div>
                             </div>
                             <div className="space-y-4 text-sm">
                               <div className="space-y-1">
@@ -846,10 +1843,48 @@ export default function Home() {
                                   <span className="text-muted-foreground">Adjustment Factor:</span>
                                   <span>{charXp.adjustmentFactor.toFixed(2)}</span>
                                 </div>
-                                <div className="flex justify-between font-medium text-base">
-                                  <span>Adjusted XP:</span>
-                                  <span className="text-primary">{charXp.adjustedXp.toLocaleString()} XP</span>
-                                </div>
+                                {treasure || charXp.xpBonusPercent !== 0 || charXp.forfeitedXp > 0 ? (
+                                  <>
+                                    <div className="flex justify-between">
+                                      <span className="text-muted-foreground">Monster XP:</span>
+                                      <span>{charXp.adjustedXp.toLocaleString()} XP</span>
+                                    </div>
+                                    {treasure && (
+                                      <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Treasure XP:</span>
+                                        <span>{charXp.treasureXp.toLocaleString()} XP</span>
+                                      </div>
+                                    )}
+                                    {charXp.xpBonusPercent !== 0 && (
+                                      <div className="flex justify-between">
+                                        <span className="text-muted-foreground">
+                                          Prime Requisite ({formatPercent(charXp.xpBonusPercent)}):
+                                        </span>
+                                        <span>{formatSignedXp(charXp.bonusXp)} XP</span>
+                                      </div>
+                                    )}
+                                    {charXp.forfeitedXp > 0 && (
+                                      <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Forfeit:</span>
+                                        <span>{formatSignedXp(-charXp.forfeitedXp)} XP</span>
+                                      </div>
+                                    )}
+                                    <div className="flex justify-between font-medium text-base">
+                                      <span>Total XP:</span>
+                                      <span className="text-primary">{charXp.totalXp.toLocaleString()} XP</span>
+                                    </div>
+                                  </>
+                                ) : (
+                                  <div className="flex justify-between font-medium text-base">
+                                    <span>Adjusted XP:</span>
+                                    <span className="text-primary">{charXp.adjustedXp.toLocaleString()} XP</span>
+                                  </div>
+                                )}
+                                {charXp.shareHandling === "pool" && character && (
+                                  <p className="text-xs text-muted-foreground italic">
+                                    {characterStatusNames[character.status]}, so their share went back to the party
+                                  </p>
+                                )}
                               </div>
                               
                               {/* Monster breakdown section */}
@@ -864,29 +1899,35 @@ export default function Home() {
                                           <div className="flex justify-between items-center text-xs">
                                             <span className="font-medium">{contribution.monsterName}</span>
                                             <Badge variant="outline" className="text-xs">
-                                              {monster && formatHitDice(monster.hitDice, monster.modifier)} × {monster?.count || 0}
+                                              {monster && formatHitDice(monster.hitDice, monster.modifier, monster.specialAbilities)} × {monster?.count || 0}
                                             </Badge>
                                           </div>
-                                          <div className="mt-1 space-y-0.5">
-                                            <div className="flex justify-between text-xs">
-                                              <span className="text-muted-foreground">Total Monster XP:</span>
-                                              <span>
-                                                {monster && (monster.effectiveHitDice * monster.count * 100).toLocaleString()} XP
-                                              </span>
-                                            </div>
-                                            <div className="flex justify-between text-xs">
-                                              <span className="text-muted-foreground">Character Share:</span>
-                                              <span>{Math.round(contribution.baseXp).toLocaleString()} XP</span>
-                                            </div>
-                                            <div className="flex justify-between text-xs">
-                                              <span className="text-muted-foreground">Adjustment:</span>
-                                              <span>{contribution.adjustmentFactor.toFixed(2)}</span>
+                                          {contribution.participated === false ? (
+                                            <p className="mt-1 text-xs text-muted-foreground italic">
+                                              Did not take part in this fight, so no XP from it
+                                            </p>
+                                          ) : (
+                                            <div className="mt-1 space-y-0.5">
+                                              <div className="flex justify-between text-xs">
+                                                <span className="text-muted-foreground">Total Monster XP:</span>
+                                                <span>
+                                                  {monster && calculateMonsterXp(monster, ruleset).toLocaleString()} XP
+                                                </span>
+                                              </div>
+                                              <div className="flex justify-between text-xs">
+                                                <span className="text-muted-foreground">Character Share:</span>
+                                                <span>{Math.round(contribution.baseXp).toLocaleString()} XP</span>
+                                              </div>
+                                              <div className="flex justify-between text-xs">
+                                                <span className="text-muted-foreground">Adjustment:</span>
+                                                <span>{contribution.adjustmentFactor.toFixed(2)}</span>
+                                              </div>
+                                              <div className="flex justify-between text-xs font-medium">
+                                                <span>Adjusted XP:</span>
+                                                <span>{Math.round(contribution.adjustedXp).toLocaleString()} XP</span>
+                                              </div>
                                             </div>
-                                            <div className="flex justify-between text-xs font-medium">
-                                              <span>Adjusted XP:</span>
-                                              <span>{Math.round(contribution.adjustedXp).toLocaleString()} XP</span>
-                                            </div>
-                                          </div>
+                                          )}
                                         </div>
                                       );
                                     })}
@@ -907,6 +1948,94 @@ export default function Home() {
         
         {/* Footer removed as requested */}
       </Card>
+
+      <Dialog
+        open={exportParts !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setExportParts(null);
+            setCopiedPart(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Copy as {exportParts?.name}</DialogTitle>
+            <DialogDescription>
+              Too long for one message, so the results come in {exportParts?.parts.length} parts. Post them in order.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {exportParts?.parts.map((part, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium">
+                    Part {index + 1} of {exportParts.parts.length}
+                    <span className="text-muted-foreground"> · {part.length.toLocaleString()} characters</span>
+                  </span>
+                  <Button type="button" variant="outline" size="sm" onClick={() => copyExportPart(index)}>
+                    {copiedPart === index ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+                    {copiedPart === index ? "Copied!" : "Copy"}
+                  </Button>
+                </div>
+                <pre className="text-xs whitespace-pre-wrap text-muted-foreground line-clamp-3">{part}</pre>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editingTemplates} onOpenChange={setEditingTemplates}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Clipboard Templates</DialogTitle>
+            <DialogDescription>
+              Layouts saved with {campaign?.name}, previewed with the current results
+            </DialogDescription>
+          </DialogHeader>
+          {campaign && reportInput() && (
+            <ClipboardTemplateEditor campaign={campaign} report={reportInput()!} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <CsvImportDialog open={importingCsv} onOpenChange={setImportingCsv} onImport={importCsv} />
+
+      <Dialog open={restoreConflicts !== null} onOpenChange={(open) => !open && setRestoreConflicts(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Restore Conflicts</DialogTitle>
+            <DialogDescription>
+              {restoreConflicts?.report.restored} restored and {restoreConflicts?.report.unchanged} already saved.
+              These calculations were skipped because their ids are taken by different saved calculations.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2 max-h-[50vh] overflow-y-auto text-sm">
+            {restoreConflicts?.report.conflicts.map((conflict) => (
+              <li key={conflict.id} className="border rounded-lg p-3">
+                <p className="font-medium">{format(new Date(conflict.date), "PPp")}</p>
+                <p className="text-muted-foreground">{conflict.message}</p>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setRestoreConflicts(null)}>
+              Skip Them
+            </Button>
+            <Button
+              type="button"
+              disabled={restoreMutation.isPending}
+              onClick={() =>
+                restoreConflicts &&
+                campaignId !== null &&
+                restoreMutation.mutate({ campaignId, backup: restoreConflicts.backup, onConflict: "copy" })
+              }
+            >
+              Restore as Copies
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
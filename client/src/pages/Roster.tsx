@@ -0,0 +1,497 @@
+import React, { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Badge } from "../components/ui/badge";
+import { Separator } from "../components/ui/separator";
+import { Textarea } from "../components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../components/ui/form";
+import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../hooks/use-auth";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { ArrowLeft, ChevronDown, ChevronUp, Plus, Trash } from "lucide-react";
+import { formatHitDice } from "@shared/calculator";
+import {
+  builtInAdvancementTables,
+  findAdvancementTable,
+  levelForXp,
+  parseAdvancementLevels,
+  xpToNextLevel,
+  type AdvancementTable,
+} from "@shared/advancement";
+import {
+  insertRosterCharacterSchema,
+  insertXpAwardSchema,
+  type Campaign,
+  type InsertRosterCharacter,
+  type InsertXpAward,
+  type RosterCharacterWithXp,
+  type XpAward,
+} from "@shared/schema";
+
+function AwardHistory({ character }: { character: RosterCharacterWithXp }) {
+  const { toast } = useToast();
+
+  const { data: awards = [] } = useQuery<XpAward[]>({
+    queryKey: [`/api/characters/${character.id}/awards`],
+  });
+
+  const form = useForm<InsertXpAward>({
+    resolver: zodResolver(insertXpAwardSchema),
+    defaultValues: { amount: 0, note: "" },
+  });
+
+  const awardMutation = useMutation({
+    mutationFn: (award: InsertXpAward) =>
+      apiRequest("POST", `/api/characters/${character.id}/awards`, award),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/characters/${character.id}/awards`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${character.campaignId}/characters`] });
+      form.reset({ amount: 0, note: "" });
+    },
+    onError: () => {
+      toast({
+        title: "Award Failed",
+        description: "Could not add the XP award",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="border-t pt-2 mt-2 space-y-2">
+      <div className="font-medium text-sm">Award History</div>
+      {awards.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No XP awarded yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {awards.map((award) => (
+            <div key={award.id} className="flex justify-between text-xs bg-secondary/30 p-2 rounded-sm">
+              <span className="text-muted-foreground">
+                {format(new Date(award.awardedAt), "PPp")}
+                {award.note
+                  ? ` · ${award.note}`
+                  : award.calculationId !== null
+                    ? " · Calculation"
+                    : award.sessionId !== null
+                      ? " · Session"
+                      : ""}
+              </span>
+              <span className="font-medium">{award.amount.toLocaleString()} XP</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((values) => awardMutation.mutate(values))}
+          className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end"
+        >
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-xs">XP</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    value={field.value}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="note"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel className="text-xs">Note</FormLabel>
+                <FormControl>
+                  <Input type="text" placeholder="Roleplay bonus" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" size="sm" variant="outline" className="mb-1" disabled={awardMutation.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add XP
+          </Button>
+        </form>
+      </Form>
+    </div>
+  );
+}
+
+// Radix selects cannot hold an empty value, so "no class" gets a sentinel
+const NO_CLASS = "none";
+
+const slugify = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+function CustomClasses({ campaign }: { campaign: Campaign }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [levelsText, setLevelsText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: (advancementTables: AdvancementTable[]) =>
+      apiRequest("PATCH", `/api/campaigns/${campaign.id}`, { advancementTables }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${campaign.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      setName("");
+      setLevelsText("");
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Could not save the custom classes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addClass = () => {
+    const id = slugify(name);
+    const levels = parseAdvancementLevels(levelsText);
+    if (!id) {
+      setError("Class name is required");
+    } else if (!levels || levels.length === 0) {
+      setError('Write one level per line as "<xp> <hit dice>", e.g. "2000 2" or "360000 9+2"');
+    } else if (levels.some((lvl, i) => i > 0 && lvl.xp <= levels[i - 1].xp)) {
+      setError("XP thresholds must increase level by level");
+    } else {
+      setError(null);
+      const others = campaign.advancementTables.filter((table) => table.id !== id);
+      saveMutation.mutate([...others, { id, name: name.trim(), levels }]);
+    }
+  };
+
+  const removeClass = (id: string) => {
+    saveMutation.mutate(campaign.advancementTables.filter((table) => table.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold">Custom Classes</h3>
+      {campaign.advancementTables.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          This campaign uses the built-in classes only. A custom class with the same name replaces the built-in one.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {campaign.advancementTables.map((table) => (
+            <div key={table.id} className="flex justify-between items-center text-sm bg-secondary/30 p-2 rounded-sm">
+              <span>
+                <span className="font-medium">{table.name}</span>
+                <span className="text-muted-foreground"> · {table.levels.length} levels</span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeClass(table.id)}
+                disabled={saveMutation.isPending}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-start">
+        <Input type="text" placeholder="Dwarf" value={name} onChange={(e) => setName(e.target.value)} />
+        <Textarea
+          className="md:col-span-2 font-mono text-xs"
+          rows={4}
+          placeholder={"0 1\n2200 2\n4400 3"}
+          value={levelsText}
+          onChange={(e) => setLevelsText(e.target.value)}
+        />
+      </div>
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+      <div className="flex justify-end">
+        <Button type="button" size="sm" variant="outline" onClick={addClass} disabled={saveMutation.isPending}>
+          <Plus className="h-4 w-4 mr-2" />
+          Save Class
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function Roster() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: campaign } = useQuery<Campaign>({
+    queryKey: [`/api/campaigns/${id}`],
+    enabled: !!user,
+  });
+
+  const { data: roster = [] } = useQuery<RosterCharacterWithXp[]>({
+    queryKey: [`/api/campaigns/${id}/characters`],
+    enabled: !!user,
+  });
+
+  const form = useForm<InsertRosterCharacter>({
+    resolver: zodResolver(insertRosterCharacterSchema),
+    defaultValues: { name: "", hitDice: 1, modifier: 0, characterClass: null },
+  });
+
+  const classTables = [
+    ...(campaign?.advancementTables ?? []),
+    ...builtInAdvancementTables.filter(
+      (table) => !campaign?.advancementTables.some((custom) => custom.id === table.id),
+    ),
+  ];
+
+  const createMutation = useMutation({
+    mutationFn: (character: InsertRosterCharacter) =>
+      apiRequest("POST", `/api/campaigns/${id}/characters`, character),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${id}/characters`] });
+      toast({
+        title: "Character Added",
+        description: `${form.getValues("name")} joined the roster`,
+      });
+      form.reset({ name: "", hitDice: 1, modifier: 0, characterClass: null });
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Could not add the character",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (characterId: number) => apiRequest("DELETE", `/api/characters/${characterId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${id}/characters`] });
+      toast({
+        title: "Character Removed",
+        description: "The character and their XP history have been removed",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Delete Failed",
+        description: "Could not remove the character",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <Card className="w-full max-w-4xl mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-3xl">{campaign ? campaign.name : "Roster"}</CardTitle>
+              <CardDescription>Persistent characters and their running XP totals</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/campaigns">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Campaigns
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {!user ? (
+            <p className="text-sm text-muted-foreground">
+              <Link href="/auth" className="underline">Sign in</Link> to manage your roster.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit((values) => createMutation.mutate(values))}
+                  className="grid grid-cols-1 md:grid-cols-5 gap-4"
+                >
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input type="text" placeholder="Bodil" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="hitDice"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Hit Dice</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="any"
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                            value={field.value}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="modifier"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Modifier</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            value={field.value ?? 0}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="characterClass"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Class</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === NO_CLASS ? null : value)}
+                          value={field.value ?? NO_CLASS}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_CLASS}>No class</SelectItem>
+                            {classTables.map((table) => (
+                              <SelectItem key={table.id} value={table.id}>
+                                {table.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex items-end">
+                    <Button type="submit" className="mb-1" disabled={createMutation.isPending}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Character
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+
+              <Separator />
+
+              {roster.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No characters on the roster yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {roster.map((character) => {
+                    const table = findAdvancementTable(character.characterClass, campaign?.advancementTables);
+                    const toNextLevel = table ? xpToNextLevel(table, character.totalXp) : null;
+                    return (
+                      <Card key={character.id}>
+                        <CardContent className="p-4">
+                          <div className="flex justify-between items-center">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{character.name}</span>
+                              <Badge>{formatHitDice(character.hitDice, character.modifier)}</Badge>
+                              {table && (
+                                <Badge variant="outline">
+                                  {table.name} {levelForXp(table, character.totalXp)}
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              {toNextLevel !== null && (
+                                <span className="text-xs text-muted-foreground">
+                                  {toNextLevel.toLocaleString()} XP to next level
+                                </span>
+                              )}
+                              <span className="font-medium text-primary">
+                                {character.totalXp.toLocaleString()} XP
+                              </span>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setExpandedId(expandedId === character.id ? null : character.id)}
+                              >
+                                {expandedId === character.id ? (
+                                  <ChevronUp className="h-4 w-4" />
+                                ) : (
+                                  <ChevronDown className="h-4 w-4" />
+                                )}
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => deleteMutation.mutate(character.id)}
+                                disabled={deleteMutation.isPending}
+                              >
+                                <Trash className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                          {expandedId === character.id && <AwardHistory character={character} />}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              )}
+
+              {campaign && (
+                <>
+                  <Separator />
+                  <CustomClasses campaign={campaign} />
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
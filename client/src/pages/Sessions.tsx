@@ -0,0 +1,849 @@
+import React, { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Badge } from "../components/ui/badge";
+import { Separator } from "../components/ui/separator";
+import { Checkbox } from "../components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../components/ui/table";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "../components/ui/accordion";
+import { MonsterQuickAdd, type MonsterTemplate } from "../components/monster-quick-add";
+import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../hooks/use-auth";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { ArrowLeft, Award, Calculator, Plus, Save, Trash } from "lucide-react";
+import { formatHitDice } from "@shared/calculator";
+import { calculateSession, type Session } from "@shared/session";
+import {
+  characterStatusNames,
+  characterStatuses,
+  participantRoleNames,
+  participantRoles,
+  resolveRuleset,
+} from "@shared/rulesets";
+import {
+  sessionCalculatorSchema,
+  type Campaign,
+  type RosterCharacterWithXp,
+  type SaveSessionInput,
+  type SavedSession,
+  type SessionCalculatorInput,
+} from "@shared/schema";
+
+const newCharacter = { name: "", role: "pc" as const, status: "present" as const, hitDice: 1, modifier: 0, treasureShare: 1 };
+const newMonster = { name: "", hitDice: 1, modifier: 0, specialAbilities: 0, count: 1 };
+const newEncounter = { name: "", monsters: [newMonster], treasure: null };
+
+const emptySession: SessionCalculatorInput = {
+  characters: [newCharacter],
+  encounters: [newEncounter],
+};
+
+export default function Sessions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [campaignId, setCampaignId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [session, setSession] = useState<Session | null>(null);
+  // The saved record behind the current result, once there is one
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+    enabled: !!user,
+  });
+
+  // Save into the first campaign until the GM picks another one
+  useEffect(() => {
+    if (campaigns.length === 0) {
+      setCampaignId(null);
+    } else if (!campaigns.some((campaign) => campaign.id === campaignId)) {
+      setCampaignId(campaigns[0].id);
+    }
+  }, [campaigns, campaignId]);
+
+  const { data: savedSessions = [] } = useQuery<SavedSession[], Error, SavedSession[]>({
+    queryKey: ["/api/sessions"],
+    enabled: !!user,
+    // Convert string dates to Date objects
+    select: (sessions) =>
+      sessions.map((saved) => ({
+        ...saved,
+        date: new Date(saved.date),
+        awardedAt: saved.awardedAt && new Date(saved.awardedAt),
+      })),
+  });
+
+  const { data: roster = [] } = useQuery<RosterCharacterWithXp[]>({
+    queryKey: [`/api/campaigns/${campaignId}/characters`],
+    enabled: !!user && campaignId !== null,
+  });
+
+  const campaign = campaigns.find((camp) => camp.id === campaignId);
+  const ruleset = resolveRuleset(campaign?.ruleset, campaign?.customRuleset);
+
+  const form = useForm<SessionCalculatorInput>({
+    resolver: zodResolver(sessionCalculatorSchema),
+    defaultValues: emptySession,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: SaveSessionInput) => {
+      const res = await apiRequest("POST", "/api/sessions", input);
+      return (await res.json()) as SavedSession;
+    },
+    onSuccess: (saved) => {
+      setSavedSession({ ...saved, date: new Date(saved.date) });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Session Saved",
+        description: `${saved.name} has been saved`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Could not save the session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const awardMutation = useMutation({
+    mutationFn: (saved: SavedSession) => apiRequest("POST", `/api/sessions/${saved.id}/award`),
+    onSuccess: (_res, saved) => {
+      setSavedSession({ ...saved, awardedAt: new Date() });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${saved.campaignId}/characters`] });
+      toast({
+        title: "XP Awarded",
+        description: "Each roster character's session total has been added to their ledger",
+        variant: "success",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Award Failed",
+        description: "Could not award XP to the roster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Session Deleted",
+        description: "The saved session has been deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete the saved session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: SessionCalculatorInput) => {
+    setSession(calculateSession(values.characters, values.encounters, ruleset));
+    setSavedSession(null);
+  };
+
+  // Copy a roster character into a party slot and link the slot to them
+  const fillFromRoster = (index: number, value: string) => {
+    const character = form.getValues(`characters.${index}`);
+    const rosterCharacter = roster.find((rosterChar) => rosterChar.id === Number(value));
+    form.setValue(
+      `characters.${index}`,
+      rosterCharacter
+        ? {
+            ...character,
+            name: rosterCharacter.name,
+            hitDice: rosterCharacter.hitDice,
+            modifier: rosterCharacter.modifier,
+            rosterCharacterId: rosterCharacter.id,
+          }
+        : { ...character, rosterCharacterId: undefined },
+    );
+  };
+
+  const addCharacter = () => {
+    form.setValue("characters", [...form.getValues("characters"), newCharacter]);
+  };
+
+  const removeCharacter = (index: number) => {
+    const characters = form.getValues("characters");
+    if (characters.length <= 1) return;
+    form.setValue(
+      "characters",
+      characters.filter((_, i) => i !== index),
+    );
+    // Character ids are positions, so later characters move up by one
+    const removedId = index + 1;
+    form.setValue(
+      "encounters",
+      form.getValues("encounters").map((encounter) => ({
+        ...encounter,
+        participants: encounter.participants
+          ?.filter((id) => id !== removedId)
+          .map((id) => (id > removedId ? id - 1 : id)),
+      })),
+    );
+  };
+
+  // Tick or untick one character for one encounter. Once everyone is ticked
+  // again the list is dropped, meaning the whole party was there.
+  const toggleParticipant = (encounterIndex: number, characterId: number, checked: boolean) => {
+    const characterIds = form.getValues("characters").map((_, i) => i + 1);
+    const current = form.getValues(`encounters.${encounterIndex}.participants`) ?? characterIds;
+    const participants = checked
+      ? characterIds.filter((id) => id === characterId || current.includes(id))
+      : current.filter((id) => id !== characterId);
+    form.setValue(
+      `encounters.${encounterIndex}.participants`,
+      participants.length === characterIds.length ? undefined : participants,
+    );
+  };
+
+  const addEncounter = () => {
+    form.setValue("encounters", [...form.getValues("encounters"), newEncounter]);
+  };
+
+  const removeEncounter = (index: number) => {
+    const encounters = form.getValues("encounters");
+    if (encounters.length > 1) {
+      form.setValue(
+        "encounters",
+        encounters.filter((_, i) => i !== index),
+      );
+    }
+  };
+
+  const addMonster = (encounterIndex: number) => {
+    const monsters = form.getValues(`encounters.${encounterIndex}.monsters`);
+    form.setValue(`encounters.${encounterIndex}.monsters`, [...monsters, newMonster]);
+  };
+
+  const fillFromTemplate = (encounterIndex: number, index: number, template: MonsterTemplate) => {
+    const { name, hitDice, modifier, specialAbilities } = template;
+    form.setValue(`encounters.${encounterIndex}.monsters.${index}`, {
+      ...form.getValues(`encounters.${encounterIndex}.monsters.${index}`),
+      name,
+      hitDice,
+      modifier,
+      specialAbilities,
+    });
+  };
+
+  const removeMonster = (encounterIndex: number, index: number) => {
+    const monsters = form.getValues(`encounters.${encounterIndex}.monsters`);
+    if (monsters.length > 1) {
+      form.setValue(
+        `encounters.${encounterIndex}.monsters`,
+        monsters.filter((_, i) => i !== index),
+      );
+    }
+  };
+
+  const saveSession = () => {
+    if (!session || campaignId === null) return;
+    if (!name.trim()) {
+      toast({
+        title: "Name Required",
+        description: "Give the session a name before saving it",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({ campaignId, name, ...form.getValues() });
+  };
+
+  const loadSession = (saved: SavedSession) => {
+    form.reset({
+      characters: saved.characters.map((char) => ({
+        name: char.name,
+        rosterCharacterId: char.rosterCharacterId,
+        role: char.role,
+        status: char.status,
+        hitDice: char.hitDice,
+        modifier: char.modifier,
+        treasureShare: char.treasureShare,
+        primeRequisite: char.primeRequisite,
+        xpBonus: char.xpBonus,
+      })),
+      encounters: saved.encounters.map((encounter) => ({
+        name: encounter.name,
+        participants: encounter.participants,
+        treasure: encounter.treasure,
+        monsters: encounter.monsters.map((monster) => ({
+          name: monster.name,
+          hitDice: monster.hitDice,
+          modifier: monster.modifier,
+          specialAbilities: monster.specialAbilities,
+          count: monster.count,
+          participants: monster.participants,
+        })),
+      })),
+    });
+    setCampaignId(saved.campaignId);
+    setName(saved.name);
+    setSession(saved);
+    setSavedSession(saved);
+  };
+
+  const characterName = (characterId: number) =>
+    session?.characters.find((char) => char.id === characterId)?.name ?? `Character ${characterId}`;
+
+  const characters = form.watch("characters");
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <Card className="w-full max-w-5xl mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-3xl">Sessions</CardTitle>
+              <CardDescription>Add up the XP from every encounter of a session</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Calculator
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Session Name</label>
+              <Input
+                type="text"
+                placeholder="Session 12: Into the Caves"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            {user && campaigns.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Campaign</label>
+                <Select
+                  value={campaignId?.toString() ?? ""}
+                  onValueChange={(value) => setCampaignId(Number(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {campaigns.map((camp) => (
+                      <SelectItem key={camp.id} value={camp.id.toString()}>
+                        {camp.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Ruleset</label>
+              <p className="text-sm text-muted-foreground pt-2">{ruleset.name}</p>
+            </div>
+          </div>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {/* Party Section */}
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-semibold">Party</h3>
+                  <Button type="button" variant="outline" size="sm" onClick={addCharacter}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Character
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  {characters.map((character, index) => (
+                    <div key={index} className="grid grid-cols-1 md:grid-cols-7 gap-2 items-end">
+                      {roster.length > 0 ? (
+                        <Select
+                          value={character.rosterCharacterId?.toString() ?? "none"}
+                          onValueChange={(value) => fillFromRoster(index, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Not on roster</SelectItem>
+                            {roster.map((rosterChar) => (
+                              <SelectItem key={rosterChar.id} value={rosterChar.id.toString()}>
+                                {rosterChar.name} ({formatHitDice(rosterChar.hitDice, rosterChar.modifier)})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <div className="hidden md:block" />
+                      )}
+                      <FormField
+                        control={form.control}
+                        name={`characters.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                              <Input type="text" placeholder={`Character ${index + 1}`} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`characters.${index}.hitDice`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Hit Dice</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={0}
+                                step="any"
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                value={field.value}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`characters.${index}.modifier`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Modifier</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                value={field.value}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`characters.${index}.role`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Role</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {participantRoles.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {participantRoleNames[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`characters.${index}.status`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Status</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {characterStatuses.map((status) => (
+                                  <SelectItem key={status} value={status}>
+                                    {characterStatusNames[status]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => removeCharacter(index)}
+                        disabled={characters.length <= 1}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <Separator />
+
+              {/* Encounters Section */}
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-semibold">Encounters</h3>
+                  <Button type="button" variant="outline" size="sm" onClick={addEncounter}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Encounter
+                  </Button>
+                </div>
+                <div className="space-y-4">
+                  {form.watch("encounters").map((encounter, encounterIndex) => (
+                    <Card key={encounterIndex}>
+                      <CardContent className="p-4 space-y-4">
+                        <div className="flex items-end gap-2">
+                          <FormField
+                            control={form.control}
+                            name={`encounters.${encounterIndex}.name`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormLabel>Encounter {encounterIndex + 1}</FormLabel>
+                                <FormControl>
+                                  <Input type="text" placeholder={`Encounter ${encounterIndex + 1}`} {...field} />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            onClick={() => removeEncounter(encounterIndex)}
+                            disabled={form.watch("encounters").length <= 1}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        </div>
+
+                        <div>
+                          <p className="text-sm font-medium mb-2">Who was there</p>
+                          <div className="flex flex-wrap gap-4">
+                            {characters.map((character, index) => (
+                              <label key={index} className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                  checked={encounter.participants?.includes(index + 1) ?? true}
+                                  onCheckedChange={(checked) =>
+                                    toggleParticipant(encounterIndex, index + 1, checked === true)
+                                  }
+                                />
+                                {character.name || `Character ${index + 1}`}
+                              </label>
+                            ))}
+                          </div>
+                          <FormField
+                            control={form.control}
+                            name={`encounters.${encounterIndex}.participants`}
+                            render={() => (
+                              <FormItem>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          {encounter.monsters.map((_, index) => (
+                            <div key={index} className="grid grid-cols-2 md:grid-cols-7 gap-2 items-end">
+                              <FormField
+                                control={form.control}
+                                name={`encounters.${encounterIndex}.monsters.${index}.name`}
+                                render={({ field }) => (
+                                  <FormItem className="col-span-2">
+                                    <FormLabel>Monster</FormLabel>
+                                    <FormControl>
+                                      <Input type="text" placeholder={`Monster ${index + 1}`} {...field} />
+                                    </FormControl>
+                                  </FormItem>
+                                )}
+                              />
+                              <FormField
+                                control={form.control}
+                                name={`encounters.${encounterIndex}.monsters.${index}.hitDice`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Hit Dice</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min={0}
+                                        step="any"
+                                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                        value={field.value}
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                              <FormField
+                                control={form.control}
+                                name={`encounters.${encounterIndex}.monsters.${index}.modifier`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Modifier</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                        value={field.value}
+                                      />
+                                    </FormControl>
+                                  </FormItem>
+                                )}
+                              />
+                              <FormField
+                                control={form.control}
+                                name={`encounters.${encounterIndex}.monsters.${index}.specialAbilities`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Abilities (*)</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min={0}
+                                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                        value={field.value}
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                              <FormField
+                                control={form.control}
+                                name={`encounters.${encounterIndex}.monsters.${index}.count`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Count</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min={1}
+                                        onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                                        value={field.value}
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                              <div className="flex gap-2">
+                                <MonsterQuickAdd
+                                  onSelect={(template) => fillFromTemplate(encounterIndex, index, template)}
+                                />
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="icon"
+                                  onClick={() => removeMonster(encounterIndex, index)}
+                                  disabled={encounter.monsters.length <= 1}
+                                >
+                                  <Trash className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </div>
+                          ))}
+                          <Button type="button" variant="ghost" size="sm" onClick={() => addMonster(encounterIndex)}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Monster
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit">
+                  <Calculator className="h-4 w-4 mr-2" />
+                  Calculate Session XP
+                </Button>
+              </div>
+            </form>
+          </Form>
+
+          {session && (
+            <>
+              <Separator />
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-lg font-semibold">
+                    Session Total: {session.result.totalXp.toLocaleString()} XP
+                  </h3>
+                  {user && (
+                    <div className="flex space-x-2">
+                      {savedSession ? (
+                        <Button
+                          size="sm"
+                          onClick={() => awardMutation.mutate(savedSession)}
+                          disabled={!!savedSession.awardedAt || awardMutation.isPending}
+                        >
+                          <Award className="h-4 w-4 mr-2" />
+                          {savedSession.awardedAt ? "XP Awarded" : "Award XP"}
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          onClick={saveSession}
+                          disabled={campaignId === null || saveMutation.isPending}
+                        >
+                          <Save className="h-4 w-4 mr-2" />
+                          Save Session
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Character</TableHead>
+                      <TableHead className="text-right">Encounters</TableHead>
+                      <TableHead className="text-right">Monster XP</TableHead>
+                      <TableHead className="text-right">Treasure XP</TableHead>
+                      <TableHead className="text-right">Bonus XP</TableHead>
+                      <TableHead className="text-right">Total XP</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {session.result.characterXp.map((charXp) => (
+                      <TableRow key={charXp.characterId}>
+                        <TableCell className="font-medium">{characterName(charXp.characterId)}</TableCell>
+                        <TableCell className="text-right">{charXp.encountersFought}</TableCell>
+                        <TableCell className="text-right">{charXp.monsterXp.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{charXp.treasureXp.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{charXp.bonusXp.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-medium text-primary">
+                          {charXp.totalXp.toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {/* Each encounter's own breakdown, down to the monster */}
+                <Accordion type="multiple">
+                  {session.result.encounters.map(({ encounterId, encounterName, result }) => (
+                    <AccordionItem key={encounterId} value={encounterId.toString()}>
+                      <AccordionTrigger>
+                        <span>
+                          {encounterName}
+                          <span className="ml-2 text-sm text-muted-foreground">
+                            {result.totalXp.toLocaleString()} XP
+                          </span>
+                        </span>
+                      </AccordionTrigger>
+                      <AccordionContent className="space-y-2">
+                        {result.characterXp.map((charXp) => (
+                          <div key={charXp.characterId} className="border rounded-lg p-3 text-sm">
+                            <div className="flex justify-between font-medium mb-1">
+                              <span>{characterName(charXp.characterId)}</span>
+                              <span>{charXp.totalXp.toLocaleString()} XP</span>
+                            </div>
+                            {charXp.monsterContributions.map((contribution) => (
+                              <div key={contribution.monsterId} className="flex justify-between text-xs">
+                                <span className="text-muted-foreground">{contribution.monsterName}</span>
+                                <span>
+                                  {contribution.participated === false
+                                    ? "Did not take part"
+                                    : `${contribution.adjustedXp.toLocaleString()} XP`}
+                                  {contribution.participated !== false && contribution.adjustmentFactor < 1 && (
+                                    <span className="text-muted-foreground">
+                                      {" "}(×{contribution.adjustmentFactor.toFixed(2)})
+                                    </span>
+                                  )}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              </div>
+            </>
+          )}
+
+          {user && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <h3 className="text-lg font-semibold">Saved Sessions</h3>
+                {savedSessions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No saved sessions yet.</p>
+                ) : (
+                  savedSessions.map((saved) => (
+                    <Card
+                      key={saved.id}
+                      className="cursor-pointer hover:bg-secondary/50"
+                      onClick={() => loadSession(saved)}
+                    >
+                      <CardContent className="p-4">
+                        <div className="flex justify-between items-center">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium">{saved.name}</p>
+                              {saved.awardedAt && <Badge variant="secondary">Awarded</Badge>}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              {campaigns.find((camp) => camp.id === saved.campaignId)?.name} ·{" "}
+                              {saved.encounters.length} encounters · {saved.result.totalXp.toLocaleString()} XP
+                            </p>
+                            <p className="text-xs text-muted-foreground">{format(saved.date, "PPp")}</p>
+                          </div>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              deleteMutation.mutate(saved.id);
+                            }}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
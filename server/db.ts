@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Only connect when a database is provisioned; storage falls back to memory
+// otherwise so the calculator still runs locally without Postgres
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : undefined;
+
+export const db = pool ? drizzle({ client: pool, schema }) : undefined;
+
+export type Database = NonNullable<typeof db>;
@@ -1,6 +1,70 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
 import { storage } from "./storage";
+import { setupAuth, requireAuth } from "./auth";
+import { sendValidationError } from "./validation";
+import {
+  calculateRequestSchema,
+  calculateSessionRequestSchema,
+  importCatalogueSchema,
+  insertBestiaryMonsterSchema,
+  insertCampaignSchema,
+  insertRosterCharacterSchema,
+  insertXpAwardSchema,
+  saveCalculationSchema,
+  saveSessionSchema,
+} from "@shared/schema";
+import { calculate, type CharacterInput, type MonsterInput } from "@shared/calculator";
+import { calculateSession, type EncounterInput } from "@shared/session";
+import { resolveRuleset } from "@shared/rulesets";
+import { findCatalogueMonster } from "@shared/catalogue";
+import { findAdvancementTable, levelDetails, levelForXp } from "@shared/advancement";
+import type { RosterCharacterWithXp } from "@shared/schema";
+import {
+  createBackup,
+  isSameCalculation,
+  readBackup,
+  restoreBackupSchema,
+  type RestoreReport,
+} from "@shared/backup";
+
+// Express 4 does not catch a rejected promise, so storage errors are handed
+// on to the error handler instead of leaving the request hanging
+const asyncHandler =
+  (handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler =>
+  (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+
+const idSchema = z.coerce.number().int().positive();
+
+// Participants, whether of a whole encounter or of one monster, must be
+// members of the party
+const hasUnknownMonsterParticipant = (characters: CharacterInput[], monsters: MonsterInput[]) =>
+  monsters.some((monster) => monster.participants?.some((id) => id > characters.length));
+
+const hasUnknownParticipant = (characters: CharacterInput[], encounters: EncounterInput[]) =>
+  encounters.some(
+    (encounter) =>
+      encounter.participants?.some((id) => id > characters.length) ||
+      hasUnknownMonsterParticipant(characters, encounter.monsters),
+  );
+
+// When new XP carries a classed roster character over a level threshold,
+// bump their hit dice to what the new level grants. Characters who did not
+// level keep whatever HD the GM last set by hand.
+async function applyLevelUp(userId: number, character: RosterCharacterWithXp, gainedXp: number) {
+  const campaign = await storage.getCampaign(userId, character.campaignId);
+  const table = findAdvancementTable(character.characterClass, campaign?.advancementTables);
+  if (!table) return;
+
+  const toLevel = levelForXp(table, character.totalXp + gainedXp);
+  if (toLevel <= levelForXp(table, character.totalXp)) return;
+
+  const { hitDice, modifier } = levelDetails(table, toLevel);
+  await storage.updateRosterCharacter(userId, character.id, { hitDice, modifier });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
@@ -9,6 +73,495 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  // sets up /api/register, /api/login, /api/logout, /api/user
+  setupAuth(app);
+
+  // Every :id in a path is a database id; anything else is a bad request
+  // rather than a lookup of NaN. Handlers read the parsed id from res.locals.
+  app.param("id", (req, res, next, value) => {
+    const parsed = idSchema.safeParse(value);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    res.locals.id = parsed.data;
+    next();
+  });
+
+  // Run the XP engine for a party and an encounter, returning the full
+  // per-character breakdown alongside the normalized characters and monsters.
+  // Callers may name a preset ruleset or send custom rules.
+  app.post("/api/calculate", (req, res) => {
+    const parsed = calculateRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const { characters, monsters, treasure, ruleset, customRuleset } = parsed.data;
+    if (ruleset === "custom" && !customRuleset) {
+      return res.status(400).json({ message: "A custom ruleset needs its rules" });
+    }
+    if (hasUnknownMonsterParticipant(characters, monsters)) {
+      return res.status(400).json({ message: "Monster participant is not in the party" });
+    }
+    res.json(calculate(characters, monsters, resolveRuleset(ruleset, customRuleset), treasure));
+  });
+
+  // The same for a whole session of encounters
+  app.post("/api/sessions/calculate", (req, res) => {
+    const parsed = calculateSessionRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const { characters, encounters, ruleset, customRuleset } = parsed.data;
+    if (ruleset === "custom" && !customRuleset) {
+      return res.status(400).json({ message: "A custom ruleset needs its rules" });
+    }
+    if (hasUnknownParticipant(characters, encounters)) {
+      return res.status(400).json({ message: "Encounter participant is not in the party" });
+    }
+    res.json(calculateSession(characters, encounters, resolveRuleset(ruleset, customRuleset)));
+  });
+
+  // Campaigns, like everything saved, are private to the signed-in GM
+  app.get("/api/campaigns", requireAuth, asyncHandler(async (req, res) => {
+    res.json(await storage.getCampaigns(req.user!.id));
+  }));
+
+  app.get("/api/campaigns/:id", requireAuth, asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.user!.id, res.locals.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    res.json(campaign);
+  }));
+
+  app.post("/api/campaigns", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = insertCampaignSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    if (parsed.data.ruleset === "custom" && !parsed.data.customRuleset) {
+      return res.status(400).json({ message: "A custom ruleset needs its rules" });
+    }
+    res.status(201).json(await storage.createCampaign(req.user!.id, parsed.data));
+  }));
+
+  app.patch("/api/campaigns/:id", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = insertCampaignSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const existing = await storage.getCampaign(req.user!.id, res.locals.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    const { ruleset = existing.ruleset, customRuleset = existing.customRuleset } = parsed.data;
+    if (ruleset === "custom" && !customRuleset) {
+      return res.status(400).json({ message: "A custom ruleset needs its rules" });
+    }
+    const campaign = await storage.updateCampaign(req.user!.id, existing.id, parsed.data);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    res.json(campaign);
+  }));
+
+  app.delete("/api/campaigns/:id", requireAuth, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteCampaign(req.user!.id, res.locals.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    res.status(204).end();
+  }));
+
+  // Optionally narrowed to one campaign with ?campaignId=
+  app.get("/api/calculations", requireAuth, asyncHandler(async (req, res) => {
+    const campaignId = idSchema.optional().safeParse(req.query.campaignId || undefined);
+    if (!campaignId.success) {
+      return sendValidationError(res, campaignId.error);
+    }
+    res.json(await storage.getCalculations(req.user!.id, campaignId.data));
+  }));
+
+  // Every saved calculation as one versioned file
+  app.get("/api/calculations/backup", requireAuth, asyncHandler(async (req, res) => {
+    res.json(createBackup(await storage.getCalculations(req.user!.id)));
+  }));
+
+  // Merge a backup into the saved calculations by id. Entries already saved
+  // are left alone; one whose id belongs to a different calculation is a
+  // conflict, reported back unless the GM asked to restore conflicts as copies.
+  app.post("/api/calculations/restore", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = restoreBackupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const read = readBackup(parsed.data.backup);
+    if (!read.ok) {
+      return res.status(400).json({ message: read.error });
+    }
+
+    const campaigns = await storage.getCampaigns(req.user!.id);
+    const target = campaigns.find((campaign) => campaign.id === parsed.data.campaignId);
+    if (!target) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+
+    const saved = await storage.getCalculations(req.user!.id);
+    const report: RestoreReport = { restored: 0, unchanged: 0, conflicts: [] };
+    for (const entry of read.backup.calculations) {
+      if (saved.some((calc) => isSameCalculation(calc, entry))) {
+        report.unchanged++;
+        continue;
+      }
+      if (parsed.data.onConflict === "skip" && saved.some((calc) => calc.id === entry.id)) {
+        report.conflicts.push({
+          id: entry.id,
+          date: entry.date,
+          message: `A different calculation is already saved as #${entry.id}`,
+        });
+        continue;
+      }
+
+      // Entries keep their campaign when it is one of the GM's, and only keep
+      // roster links to characters on that campaign's roster
+      const campaign = campaigns.find((candidate) => candidate.id === entry.campaignId) ?? target;
+      const roster = await storage.getRosterCharacters(req.user!.id, campaign.id);
+      const characters = entry.characters.map(({ rosterCharacterId, ...char }) =>
+        roster.some((rosterChar) => rosterChar.id === rosterCharacterId) ? { ...char, rosterCharacterId } : char,
+      );
+      const restored = await storage.createCalculation(
+        req.user!.id,
+        campaign.id,
+        calculate(characters, entry.monsters, resolveRuleset(campaign.ruleset, campaign.customRuleset), entry.treasure),
+        entry.date,
+      );
+      saved.push(restored);
+      report.restored++;
+    }
+    res.json(report);
+  }));
+
+  app.get("/api/calculations/:id", requireAuth, asyncHandler(async (req, res) => {
+    const calculation = await storage.getCalculation(req.user!.id, res.locals.id);
+    if (!calculation) {
+      return res.status(404).json({ message: "Calculation not found" });
+    }
+    res.json(calculation);
+  }));
+
+  // Saving re-runs the engine on the submitted party and encounter so stored
+  // results never drift from the inputs they were computed from
+  app.post("/api/calculations", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = saveCalculationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const { campaignId, characters, monsters, treasure } = parsed.data;
+    const campaign = await storage.getCampaign(req.user!.id, campaignId);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    if (hasUnknownMonsterParticipant(characters, monsters)) {
+      return res.status(400).json({ message: "Monster participant is not in the party" });
+    }
+
+    // Party members linked to the roster must come from this campaign's roster
+    const roster = await storage.getRosterCharacters(req.user!.id, campaign.id);
+    const unknownRosterCharacter = characters.find(
+      (char) =>
+        char.rosterCharacterId !== undefined &&
+        !roster.some((rosterChar) => rosterChar.id === char.rosterCharacterId),
+    );
+    if (unknownRosterCharacter) {
+      return res.status(400).json({ message: "Character is not on this campaign's roster" });
+    }
+
+    const saved = await storage.createCalculation(
+      req.user!.id,
+      campaign.id,
+      calculate(characters, monsters, resolveRuleset(campaign.ruleset, campaign.customRuleset), treasure),
+    );
+    res.status(201).json(saved);
+  }));
+
+  app.delete("/api/calculations/:id", requireAuth, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteCalculation(req.user!.id, res.locals.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Calculation not found" });
+    }
+    res.status(204).end();
+  }));
+
+  // Post each linked character's XP from a saved calculation to their ledger
+  app.post("/api/calculations/:id/award", requireAuth, asyncHandler(async (req, res) => {
+    const calculation = await storage.getCalculation(req.user!.id, res.locals.id);
+    if (!calculation) {
+      return res.status(404).json({ message: "Calculation not found" });
+    }
+    if (calculation.awardedAt) {
+      return res.status(409).json({ message: "XP from this calculation was already awarded" });
+    }
+
+    const awards = calculation.result.characterXp.flatMap((charXp) => {
+      const character = calculation.characters.find((char) => char.id === charXp.characterId);
+      return character?.rosterCharacterId !== undefined
+        ? [{ rosterCharacterId: character.rosterCharacterId, amount: charXp.totalXp }]
+        : [];
+    });
+    if (awards.length === 0) {
+      return res.status(400).json({ message: "No characters in this calculation are on the roster" });
+    }
+
+    const roster = await storage.getRosterCharacters(req.user!.id, calculation.campaignId);
+    const created = await storage.awardCalculation(req.user!.id, calculation.id, awards);
+    // Another request awarded it after the check above
+    if (!created) {
+      return res.status(409).json({ message: "XP from this calculation was already awarded" });
+    }
+    for (const award of awards) {
+      const character = roster.find((char) => char.id === award.rosterCharacterId);
+      if (character) {
+        await applyLevelUp(req.user!.id, character, award.amount);
+      }
+    }
+    res.status(201).json(created);
+  }));
+
+  // Saved sessions, optionally narrowed to one campaign with ?campaignId=
+  app.get("/api/sessions", requireAuth, asyncHandler(async (req, res) => {
+    const campaignId = idSchema.optional().safeParse(req.query.campaignId || undefined);
+    if (!campaignId.success) {
+      return sendValidationError(res, campaignId.error);
+    }
+    res.json(await storage.getSessions(req.user!.id, campaignId.data));
+  }));
+
+  app.get("/api/sessions/:id", requireAuth, asyncHandler(async (req, res) => {
+    const session = await storage.getSession(req.user!.id, res.locals.id);
+    if (!session) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    res.json(session);
+  }));
+
+  // Like calculations, saving re-runs the engine under the campaign's ruleset
+  app.post("/api/sessions", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = saveSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const { campaignId, name, characters, encounters } = parsed.data;
+    const campaign = await storage.getCampaign(req.user!.id, campaignId);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    if (hasUnknownParticipant(characters, encounters)) {
+      return res.status(400).json({ message: "Encounter participant is not in the party" });
+    }
+
+    const roster = await storage.getRosterCharacters(req.user!.id, campaign.id);
+    const unknownRosterCharacter = characters.find(
+      (char) =>
+        char.rosterCharacterId !== undefined &&
+        !roster.some((rosterChar) => rosterChar.id === char.rosterCharacterId),
+    );
+    if (unknownRosterCharacter) {
+      return res.status(400).json({ message: "Character is not on this campaign's roster" });
+    }
+
+    const saved = await storage.createSession(
+      req.user!.id,
+      campaign.id,
+      name,
+      calculateSession(characters, encounters, resolveRuleset(campaign.ruleset, campaign.customRuleset)),
+    );
+    res.status(201).json(saved);
+  }));
+
+  app.delete("/api/sessions/:id", requireAuth, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteSession(req.user!.id, res.locals.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    res.status(204).end();
+  }));
+
+  // Post each linked character's session total to their ledger
+  app.post("/api/sessions/:id/award", requireAuth, asyncHandler(async (req, res) => {
+    const session = await storage.getSession(req.user!.id, res.locals.id);
+    if (!session) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    if (session.awardedAt) {
+      return res.status(409).json({ message: "XP from this session was already awarded" });
+    }
+
+    // The party is saved as JSON, so a link can outlive its roster character;
+    // only characters still on the roster are awarded
+    const roster = await storage.getRosterCharacters(req.user!.id, session.campaignId);
+    const awards = session.result.characterXp.flatMap((charXp) => {
+      const character = session.characters.find((char) => char.id === charXp.characterId);
+      return character?.rosterCharacterId !== undefined &&
+        roster.some((rosterChar) => rosterChar.id === character.rosterCharacterId)
+        ? [{ rosterCharacterId: character.rosterCharacterId, amount: charXp.totalXp }]
+        : [];
+    });
+    if (awards.length === 0) {
+      return res.status(400).json({ message: "No characters in this session are on the roster" });
+    }
+
+    const created = await storage.awardSession(req.user!.id, session.id, awards);
+    // Another request awarded it after the check above
+    if (!created) {
+      return res.status(409).json({ message: "XP from this session was already awarded" });
+    }
+    for (const award of awards) {
+      const character = roster.find((char) => char.id === award.rosterCharacterId);
+      if (character) {
+        await applyLevelUp(req.user!.id, character, award.amount);
+      }
+    }
+    res.status(201).json(created);
+  }));
+
+  // Campaign roster and each character's XP ledger
+  app.get("/api/campaigns/:id/characters", requireAuth, asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.user!.id, res.locals.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    res.json(await storage.getRosterCharacters(req.user!.id, campaign.id));
+  }));
+
+  app.post("/api/campaigns/:id/characters", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = insertRosterCharacterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const campaign = await storage.getCampaign(req.user!.id, res.locals.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    const { characterClass } = parsed.data;
+    if (characterClass && !findAdvancementTable(characterClass, campaign.advancementTables)) {
+      return res.status(400).json({ message: "Unknown character class" });
+    }
+    res.status(201).json(await storage.createRosterCharacter(req.user!.id, campaign.id, parsed.data));
+  }));
+
+  app.patch("/api/characters/:id", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = insertRosterCharacterSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const existing = await storage.getRosterCharacter(req.user!.id, res.locals.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Character not found" });
+    }
+    const { characterClass } = parsed.data;
+    if (characterClass) {
+      const campaign = await storage.getCampaign(req.user!.id, existing.campaignId);
+      if (!findAdvancementTable(characterClass, campaign?.advancementTables)) {
+        return res.status(400).json({ message: "Unknown character class" });
+      }
+    }
+    const character = await storage.updateRosterCharacter(req.user!.id, existing.id, parsed.data);
+    if (!character) {
+      return res.status(404).json({ message: "Character not found" });
+    }
+    res.json(character);
+  }));
+
+  app.delete("/api/characters/:id", requireAuth, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteRosterCharacter(req.user!.id, res.locals.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Character not found" });
+    }
+    res.status(204).end();
+  }));
+
+  // The GM's bestiary of reusable monster templates
+  app.get("/api/bestiary", requireAuth, asyncHandler(async (req, res) => {
+    res.json(await storage.getBestiaryMonsters(req.user!.id));
+  }));
+
+  app.post("/api/bestiary", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = insertBestiaryMonsterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    res.status(201).json(await storage.createBestiaryMonster(req.user!.id, parsed.data));
+  }));
+
+  // Copy monsters from the bundled catalogue, skipping any the GM already has
+  app.post("/api/bestiary/import", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = importCatalogueSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const monsters = parsed.data.names.map(findCatalogueMonster);
+    if (monsters.some((monster) => !monster)) {
+      return res.status(400).json({ message: "Monster is not in the catalogue" });
+    }
+
+    const bestiary = await storage.getBestiaryMonsters(req.user!.id);
+    const known = new Set(bestiary.map((entry) => entry.name.toLowerCase()));
+    const created = [];
+    for (const monster of monsters) {
+      if (!monster || known.has(monster.name.toLowerCase())) continue;
+      known.add(monster.name.toLowerCase());
+      created.push(await storage.createBestiaryMonster(req.user!.id, monster));
+    }
+    res.status(201).json(created);
+  }));
+
+  app.patch("/api/bestiary/:id", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = insertBestiaryMonsterSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const monster = await storage.updateBestiaryMonster(req.user!.id, res.locals.id, parsed.data);
+    if (!monster) {
+      return res.status(404).json({ message: "Monster not found" });
+    }
+    res.json(monster);
+  }));
+
+  app.delete("/api/bestiary/:id", requireAuth, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteBestiaryMonster(req.user!.id, res.locals.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Monster not found" });
+    }
+    res.status(204).end();
+  }));
+
+  app.get("/api/characters/:id/awards", requireAuth, asyncHandler(async (req, res) => {
+    const character = await storage.getRosterCharacter(req.user!.id, res.locals.id);
+    if (!character) {
+      return res.status(404).json({ message: "Character not found" });
+    }
+    res.json(await storage.getXpAwards(req.user!.id, character.id));
+  }));
+
+  // Manual ledger adjustments, e.g. XP for roleplay or a correction
+  app.post("/api/characters/:id/awards", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = insertXpAwardSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const character = await storage.getRosterCharacter(req.user!.id, res.locals.id);
+    if (!character) {
+      return res.status(404).json({ message: "Character not found" });
+    }
+    const award = await storage.createXpAward(req.user!.id, character.id, parsed.data);
+    await applyLevelUp(req.user!.id, character, award.amount);
+    res.status(201).json(award);
+  }));
+
   const httpServer = createServer(app);
 
   return httpServer;
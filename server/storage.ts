@@ -1,4 +1,41 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, asc, desc, eq, isNull, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import {
+  users,
+  campaigns,
+  calculations,
+  calculationCharacters,
+  calculationMonsters,
+  sessions,
+  rosterCharacters,
+  bestiaryMonsters,
+  xpAwards,
+  type User,
+  type InsertUser,
+  type Campaign,
+  type InsertCampaign,
+  type RosterCharacter,
+  type RosterCharacterWithXp,
+  type InsertRosterCharacter,
+  type XpAward,
+  type InsertXpAward,
+  type BestiaryMonster,
+  type InsertBestiaryMonster,
+  type SavedCalculation,
+  type CalculationRow,
+  type CalculationCharacterRow,
+  type CalculationMonsterRow,
+  type SavedSession,
+  type SessionRow,
+} from "@shared/schema";
+import type { Calculation, Character } from "@shared/calculator";
+import type { Session } from "@shared/session";
+import { db, pool, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +44,113 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getCampaigns(userId: number): Promise<Campaign[]>;
+  getCampaign(userId: number, id: number): Promise<Campaign | undefined>;
+  createCampaign(userId: number, campaign: InsertCampaign): Promise<Campaign>;
+  updateCampaign(userId: number, id: number, campaign: Partial<InsertCampaign>): Promise<Campaign | undefined>;
+  deleteCampaign(userId: number, id: number): Promise<boolean>;
+
+  getCalculations(userId: number, campaignId?: number): Promise<SavedCalculation[]>;
+  getCalculation(userId: number, id: number): Promise<SavedCalculation | undefined>;
+  // The date defaults to now; restoring a backup keeps the original one
+  createCalculation(
+    userId: number,
+    campaignId: number,
+    calculation: Calculation,
+    date?: Date,
+  ): Promise<SavedCalculation>;
+  deleteCalculation(userId: number, id: number): Promise<boolean>;
+
+  getSessions(userId: number, campaignId?: number): Promise<SavedSession[]>;
+  getSession(userId: number, id: number): Promise<SavedSession | undefined>;
+  createSession(userId: number, campaignId: number, name: string, session: Session): Promise<SavedSession>;
+  deleteSession(userId: number, id: number): Promise<boolean>;
+
+  getRosterCharacters(userId: number, campaignId: number): Promise<RosterCharacterWithXp[]>;
+  getRosterCharacter(userId: number, id: number): Promise<RosterCharacterWithXp | undefined>;
+  createRosterCharacter(
+    userId: number,
+    campaignId: number,
+    character: InsertRosterCharacter,
+  ): Promise<RosterCharacterWithXp>;
+  updateRosterCharacter(
+    userId: number,
+    id: number,
+    character: Partial<InsertRosterCharacter>,
+  ): Promise<RosterCharacterWithXp | undefined>;
+  deleteRosterCharacter(userId: number, id: number): Promise<boolean>;
+
+  getBestiaryMonsters(userId: number): Promise<BestiaryMonster[]>;
+  createBestiaryMonster(userId: number, monster: InsertBestiaryMonster): Promise<BestiaryMonster>;
+  updateBestiaryMonster(
+    userId: number,
+    id: number,
+    monster: Partial<InsertBestiaryMonster>,
+  ): Promise<BestiaryMonster | undefined>;
+  deleteBestiaryMonster(userId: number, id: number): Promise<boolean>;
+
+  getXpAwards(userId: number, rosterCharacterId: number): Promise<XpAward[]>;
+  createXpAward(userId: number, rosterCharacterId: number, award: InsertXpAward): Promise<XpAward>;
+  // Posts each roster character's share of a calculation to their ledger
+  // and marks the calculation as awarded, all at once. Undefined when it
+  // was already awarded, so a repeated request cannot post the XP twice.
+  awardCalculation(
+    userId: number,
+    calculationId: number,
+    awards: { rosterCharacterId: number; amount: number }[],
+  ): Promise<XpAward[] | undefined>;
+  // The same for every character's total across a session
+  awardSession(
+    userId: number,
+    sessionId: number,
+    awards: { rosterCharacterId: number; amount: number }[],
+  ): Promise<XpAward[] | undefined>;
+
+  sessionStore: session.Store;
 }
 
+// A saved party with one roster character's link dropped
+const unlinkRosterCharacter = (characters: Character[], id: number): Character[] =>
+  characters.map(({ rosterCharacterId, ...char }) =>
+    rosterCharacterId === id ? char : { ...char, rosterCharacterId },
+  );
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private campaigns: Map<number, Campaign>;
+  private calculations: Map<number, SavedCalculation>;
+  private sessions: Map<number, SavedSession>;
+  private rosterCharacters: Map<number, RosterCharacter>;
+  private xpAwards: Map<number, XpAward>;
+  private bestiaryMonsters: Map<number, BestiaryMonster>;
   currentId: number;
+  currentCampaignId: number;
+  currentCalculationId: number;
+  currentSessionId: number;
+  currentRosterCharacterId: number;
+  currentXpAwardId: number;
+  currentBestiaryMonsterId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.campaigns = new Map();
+    this.calculations = new Map();
+    this.sessions = new Map();
+    this.rosterCharacters = new Map();
+    this.xpAwards = new Map();
+    this.bestiaryMonsters = new Map();
     this.currentId = 1;
+    this.currentCampaignId = 1;
+    this.currentCalculationId = 1;
+    this.currentSessionId = 1;
+    this.currentRosterCharacterId = 1;
+    this.currentXpAwardId = 1;
+    this.currentBestiaryMonsterId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +169,777 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getCampaigns(userId: number): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values())
+      .filter((campaign) => campaign.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCampaign(userId: number, id: number): Promise<Campaign | undefined> {
+    const campaign = this.campaigns.get(id);
+    return campaign?.userId === userId ? campaign : undefined;
+  }
+
+  async createCampaign(userId: number, insertCampaign: InsertCampaign): Promise<Campaign> {
+    const id = this.currentCampaignId++;
+    const campaign: Campaign = {
+      ...insertCampaign,
+      customRuleset: insertCampaign.customRuleset ?? null,
+      id,
+      userId,
+      createdAt: new Date(),
+    };
+    this.campaigns.set(id, campaign);
+    return campaign;
+  }
+
+  async updateCampaign(
+    userId: number,
+    id: number,
+    update: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined> {
+    const campaign = await this.getCampaign(userId, id);
+    if (!campaign) {
+      return undefined;
+    }
+    const updated: Campaign = { ...campaign, ...update };
+    this.campaigns.set(id, updated);
+    return updated;
+  }
+
+  async deleteCampaign(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getCampaign(userId, id))) {
+      return false;
+    }
+    // Mirror the cascade the database applies to a campaign's calculations,
+    // sessions and roster
+    Array.from(this.calculations.values())
+      .filter((calc) => calc.campaignId === id)
+      .forEach((calc) => this.calculations.delete(calc.id));
+    Array.from(this.sessions.values())
+      .filter((saved) => saved.campaignId === id)
+      .forEach((saved) => this.sessions.delete(saved.id));
+    Array.from(this.rosterCharacters.values())
+      .filter((char) => char.campaignId === id)
+      .forEach((char) => this.deleteRosterCharacter(userId, char.id));
+    return this.campaigns.delete(id);
+  }
+
+  async getCalculations(userId: number, campaignId?: number): Promise<SavedCalculation[]> {
+    return Array.from(this.calculations.values())
+      .filter((calc) => calc.userId === userId)
+      .filter((calc) => campaignId === undefined || calc.campaignId === campaignId)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  async getCalculation(userId: number, id: number): Promise<SavedCalculation | undefined> {
+    const calc = this.calculations.get(id);
+    return calc?.userId === userId ? calc : undefined;
+  }
+
+  async createCalculation(
+    userId: number,
+    campaignId: number,
+    calculation: Calculation,
+    date: Date = new Date(),
+  ): Promise<SavedCalculation> {
+    const id = this.currentCalculationId++;
+    const saved: SavedCalculation = {
+      ...calculation,
+      id,
+      userId,
+      campaignId,
+      date,
+      awardedAt: null,
+    };
+    this.calculations.set(id, saved);
+    return saved;
+  }
+
+  async deleteCalculation(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getCalculation(userId, id))) {
+      return false;
+    }
+    // Awards outlive the calculation they came from
+    Array.from(this.xpAwards.values())
+      .filter((award) => award.calculationId === id)
+      .forEach((award) => this.xpAwards.set(award.id, { ...award, calculationId: null }));
+    return this.calculations.delete(id);
+  }
+
+  async getSessions(userId: number, campaignId?: number): Promise<SavedSession[]> {
+    return Array.from(this.sessions.values())
+      .filter((saved) => saved.userId === userId)
+      .filter((saved) => campaignId === undefined || saved.campaignId === campaignId)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  async getSession(userId: number, id: number): Promise<SavedSession | undefined> {
+    const saved = this.sessions.get(id);
+    return saved?.userId === userId ? saved : undefined;
+  }
+
+  async createSession(
+    userId: number,
+    campaignId: number,
+    name: string,
+    session: Session,
+  ): Promise<SavedSession> {
+    const id = this.currentSessionId++;
+    const saved: SavedSession = {
+      ...session,
+      id,
+      userId,
+      campaignId,
+      name,
+      date: new Date(),
+      awardedAt: null,
+    };
+    this.sessions.set(id, saved);
+    return saved;
+  }
+
+  async deleteSession(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getSession(userId, id))) {
+      return false;
+    }
+    Array.from(this.xpAwards.values())
+      .filter((award) => award.sessionId === id)
+      .forEach((award) => this.xpAwards.set(award.id, { ...award, sessionId: null }));
+    return this.sessions.delete(id);
+  }
+
+  private withTotalXp(character: RosterCharacter): RosterCharacterWithXp {
+    const totalXp = Array.from(this.xpAwards.values())
+      .filter((award) => award.rosterCharacterId === character.id)
+      .reduce((sum, award) => sum + award.amount, 0);
+    return { ...character, totalXp };
+  }
+
+  async getRosterCharacters(userId: number, campaignId: number): Promise<RosterCharacterWithXp[]> {
+    return Array.from(this.rosterCharacters.values())
+      .filter((char) => char.userId === userId && char.campaignId === campaignId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((char) => this.withTotalXp(char));
+  }
+
+  async getRosterCharacter(userId: number, id: number): Promise<RosterCharacterWithXp | undefined> {
+    const character = this.rosterCharacters.get(id);
+    return character?.userId === userId ? this.withTotalXp(character) : undefined;
+  }
+
+  async createRosterCharacter(
+    userId: number,
+    campaignId: number,
+    insertCharacter: InsertRosterCharacter,
+  ): Promise<RosterCharacterWithXp> {
+    const id = this.currentRosterCharacterId++;
+    const character: RosterCharacter = {
+      modifier: 0,
+      characterClass: null,
+      ...insertCharacter,
+      id,
+      userId,
+      campaignId,
+      createdAt: new Date(),
+    };
+    this.rosterCharacters.set(id, character);
+    return this.withTotalXp(character);
+  }
+
+  async updateRosterCharacter(
+    userId: number,
+    id: number,
+    update: Partial<InsertRosterCharacter>,
+  ): Promise<RosterCharacterWithXp | undefined> {
+    const character = this.rosterCharacters.get(id);
+    if (character?.userId !== userId) {
+      return undefined;
+    }
+    const updated: RosterCharacter = { ...character, ...update };
+    this.rosterCharacters.set(id, updated);
+    return this.withTotalXp(updated);
+  }
+
+  async deleteRosterCharacter(userId: number, id: number): Promise<boolean> {
+    if (this.rosterCharacters.get(id)?.userId !== userId) {
+      return false;
+    }
+    Array.from(this.xpAwards.values())
+      .filter((award) => award.rosterCharacterId === id)
+      .forEach((award) => this.xpAwards.delete(award.id));
+    // Saved calculations and sessions keep the character by name but lose
+    // the link, as the database's "set null" does for calculations
+    Array.from(this.calculations.values())
+      .filter((calc) => calc.characters.some((char) => char.rosterCharacterId === id))
+      .forEach((calc) =>
+        this.calculations.set(calc.id, { ...calc, characters: unlinkRosterCharacter(calc.characters, id) }),
+      );
+    Array.from(this.sessions.values())
+      .filter((saved) => saved.characters.some((char) => char.rosterCharacterId === id))
+      .forEach((saved) =>
+        this.sessions.set(saved.id, { ...saved, characters: unlinkRosterCharacter(saved.characters, id) }),
+      );
+    return this.rosterCharacters.delete(id);
+  }
+
+  async getBestiaryMonsters(userId: number): Promise<BestiaryMonster[]> {
+    return Array.from(this.bestiaryMonsters.values())
+      .filter((monster) => monster.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createBestiaryMonster(
+    userId: number,
+    insertMonster: InsertBestiaryMonster,
+  ): Promise<BestiaryMonster> {
+    const id = this.currentBestiaryMonsterId++;
+    const monster: BestiaryMonster = {
+      modifier: 0,
+      notes: "",
+      source: "",
+      ...insertMonster,
+      id,
+      userId,
+      createdAt: new Date(),
+    };
+    this.bestiaryMonsters.set(id, monster);
+    return monster;
+  }
+
+  async updateBestiaryMonster(
+    userId: number,
+    id: number,
+    update: Partial<InsertBestiaryMonster>,
+  ): Promise<BestiaryMonster | undefined> {
+    const monster = this.bestiaryMonsters.get(id);
+    if (monster?.userId !== userId) {
+      return undefined;
+    }
+    const updated: BestiaryMonster = { ...monster, ...update };
+    this.bestiaryMonsters.set(id, updated);
+    return updated;
+  }
+
+  async deleteBestiaryMonster(userId: number, id: number): Promise<boolean> {
+    if (this.bestiaryMonsters.get(id)?.userId !== userId) {
+      return false;
+    }
+    return this.bestiaryMonsters.delete(id);
+  }
+
+  async getXpAwards(userId: number, rosterCharacterId: number): Promise<XpAward[]> {
+    return Array.from(this.xpAwards.values())
+      .filter((award) => award.userId === userId && award.rosterCharacterId === rosterCharacterId)
+      .sort((a, b) => b.awardedAt.getTime() - a.awardedAt.getTime());
+  }
+
+  async createXpAward(
+    userId: number,
+    rosterCharacterId: number,
+    insertAward: InsertXpAward,
+  ): Promise<XpAward> {
+    const id = this.currentXpAwardId++;
+    const award: XpAward = {
+      note: "",
+      ...insertAward,
+      id,
+      userId,
+      rosterCharacterId,
+      calculationId: null,
+      sessionId: null,
+      awardedAt: new Date(),
+    };
+    this.xpAwards.set(id, award);
+    return award;
+  }
+
+  async awardCalculation(
+    userId: number,
+    calculationId: number,
+    awards: { rosterCharacterId: number; amount: number }[],
+  ): Promise<XpAward[] | undefined> {
+    const calculation = this.calculations.get(calculationId);
+    if (calculation?.userId !== userId || calculation.awardedAt) {
+      return undefined;
+    }
+    const awardedAt = new Date();
+    this.calculations.set(calculationId, { ...calculation, awardedAt });
+    return awards.map(({ rosterCharacterId, amount }) => {
+      const id = this.currentXpAwardId++;
+      const award: XpAward = {
+        id,
+        userId,
+        rosterCharacterId,
+        calculationId,
+        sessionId: null,
+        amount,
+        note: "",
+        awardedAt,
+      };
+      this.xpAwards.set(id, award);
+      return award;
+    });
+  }
+
+  async awardSession(
+    userId: number,
+    sessionId: number,
+    awards: { rosterCharacterId: number; amount: number }[],
+  ): Promise<XpAward[] | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (session?.userId !== userId || session.awardedAt) {
+      return undefined;
+    }
+    const awardedAt = new Date();
+    this.sessions.set(sessionId, { ...session, awardedAt });
+    return awards.map(({ rosterCharacterId, amount }) => {
+      const id = this.currentXpAwardId++;
+      const award: XpAward = {
+        id,
+        userId,
+        rosterCharacterId,
+        calculationId: null,
+        sessionId,
+        amount,
+        note: "",
+        awardedAt,
+      };
+      this.xpAwards.set(id, award);
+      return award;
+    });
+  }
+}
+
+type CalculationWithRows = CalculationRow & {
+  characters: CalculationCharacterRow[];
+  monsters: CalculationMonsterRow[];
+};
+
+const toSavedCalculation = (row: CalculationWithRows): SavedCalculation => ({
+  id: row.id,
+  userId: row.userId,
+  campaignId: row.campaignId,
+  date: row.date,
+  awardedAt: row.awardedAt,
+  characters: row.characters
+    .sort((a, b) => a.position - b.position)
+    .map((char) => ({
+      id: char.position,
+      name: char.name,
+      rosterCharacterId: char.rosterCharacterId ?? undefined,
+      role: char.role,
+      status: char.status,
+      hitDice: char.hitDice,
+      modifier: char.modifier,
+      treasureShare: char.treasureShare,
+      primeRequisite: char.primeRequisite ?? undefined,
+      xpBonus: char.xpBonus ?? undefined,
+      effectiveHitDice: char.effectiveHitDice,
+    })),
+  monsters: row.monsters
+    .sort((a, b) => a.position - b.position)
+    .map(({ position, name, hitDice, modifier, specialAbilities, count, participants, effectiveHitDice }) => ({
+      id: position,
+      name,
+      hitDice,
+      modifier,
+      specialAbilities,
+      count,
+      participants: participants ?? undefined,
+      effectiveHitDice,
+    })),
+  treasure: row.treasure,
+  result: row.result,
+});
+
+const toSavedSession = (row: SessionRow): SavedSession => ({
+  id: row.id,
+  userId: row.userId,
+  campaignId: row.campaignId,
+  name: row.name,
+  date: row.date,
+  awardedAt: row.awardedAt,
+  characters: row.characters,
+  encounters: row.encounters,
+  result: row.result,
+});
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, sessionPool: NonNullable<typeof pool>) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: sessionPool,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getCampaigns(userId: number): Promise<Campaign[]> {
+    return this.db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.userId, userId))
+      .orderBy(asc(campaigns.name));
+  }
+
+  async getCampaign(userId: number, id: number): Promise<Campaign | undefined> {
+    const [campaign] = await this.db
+      .select()
+      .from(campaigns)
+      .where(and(eq(campaigns.id, id), eq(campaigns.userId, userId)));
+    return campaign;
+  }
+
+  async createCampaign(userId: number, insertCampaign: InsertCampaign): Promise<Campaign> {
+    const [campaign] = await this.db
+      .insert(campaigns)
+      .values({ ...insertCampaign, userId })
+      .returning();
+    return campaign;
+  }
+
+  async updateCampaign(
+    userId: number,
+    id: number,
+    update: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined> {
+    const [campaign] = await this.db
+      .update(campaigns)
+      .set(update)
+      .where(and(eq(campaigns.id, id), eq(campaigns.userId, userId)))
+      .returning();
+    return campaign;
+  }
+
+  async deleteCampaign(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(campaigns)
+      .where(and(eq(campaigns.id, id), eq(campaigns.userId, userId)))
+      .returning({ id: campaigns.id });
+    return deleted.length > 0;
+  }
+
+  async getCalculations(userId: number, campaignId?: number): Promise<SavedCalculation[]> {
+    const rows = await this.db.query.calculations.findMany({
+      where: and(
+        eq(calculations.userId, userId),
+        campaignId === undefined ? undefined : eq(calculations.campaignId, campaignId),
+      ),
+      with: { characters: true, monsters: true },
+      orderBy: [desc(calculations.date)],
+    });
+    return rows.map(toSavedCalculation);
+  }
+
+  async getCalculation(userId: number, id: number): Promise<SavedCalculation | undefined> {
+    const row = await this.db.query.calculations.findFirst({
+      where: and(eq(calculations.id, id), eq(calculations.userId, userId)),
+      with: { characters: true, monsters: true },
+    });
+    return row && toSavedCalculation(row);
+  }
+
+  async createCalculation(
+    userId: number,
+    campaignId: number,
+    calculation: Calculation,
+    date?: Date,
+  ): Promise<SavedCalculation> {
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(calculations)
+        .values({ userId, campaignId, date, treasure: calculation.treasure, result: calculation.result })
+        .returning();
+
+      const characters = await tx
+        .insert(calculationCharacters)
+        .values(
+          calculation.characters.map(({ id, ...char }) => ({
+            ...char,
+            calculationId: row.id,
+            position: id,
+          })),
+        )
+        .returning();
+
+      const monsters = await tx
+        .insert(calculationMonsters)
+        .values(
+          calculation.monsters.map(({ id, ...monster }) => ({
+            ...monster,
+            calculationId: row.id,
+            position: id,
+          })),
+        )
+        .returning();
+
+      return toSavedCalculation({ ...row, characters, monsters });
+    });
+  }
+
+  async deleteCalculation(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(calculations)
+      .where(and(eq(calculations.id, id), eq(calculations.userId, userId)))
+      .returning({ id: calculations.id });
+    return deleted.length > 0;
+  }
+
+  async getSessions(userId: number, campaignId?: number): Promise<SavedSession[]> {
+    const rows = await this.db.query.sessions.findMany({
+      where: and(
+        eq(sessions.userId, userId),
+        campaignId === undefined ? undefined : eq(sessions.campaignId, campaignId),
+      ),
+      orderBy: [desc(sessions.date)],
+    });
+    return rows.map(toSavedSession);
+  }
+
+  async getSession(userId: number, id: number): Promise<SavedSession | undefined> {
+    const row = await this.db.query.sessions.findFirst({
+      where: and(eq(sessions.id, id), eq(sessions.userId, userId)),
+    });
+    return row && toSavedSession(row);
+  }
+
+  async createSession(
+    userId: number,
+    campaignId: number,
+    name: string,
+    session: Session,
+  ): Promise<SavedSession> {
+    const [row] = await this.db
+      .insert(sessions)
+      .values({ ...session, userId, campaignId, name })
+      .returning();
+    return toSavedSession(row);
+  }
+
+  async deleteSession(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(sessions)
+      .where(and(eq(sessions.id, id), eq(sessions.userId, userId)))
+      .returning({ id: sessions.id });
+    return deleted.length > 0;
+  }
+
+  // Running XP totals come from summing each character's ledger lines
+  private rosterCharacterWithXp() {
+    return this.db
+      .select({
+        character: rosterCharacters,
+        totalXp: sql<number>`coalesce(sum(${xpAwards.amount}), 0)`.mapWith(Number),
+      })
+      .from(rosterCharacters)
+      .leftJoin(xpAwards, eq(xpAwards.rosterCharacterId, rosterCharacters.id))
+      .groupBy(rosterCharacters.id)
+      .$dynamic();
+  }
+
+  async getRosterCharacters(userId: number, campaignId: number): Promise<RosterCharacterWithXp[]> {
+    const rows = await this.rosterCharacterWithXp()
+      .where(and(eq(rosterCharacters.userId, userId), eq(rosterCharacters.campaignId, campaignId)))
+      .orderBy(asc(rosterCharacters.name));
+    return rows.map(({ character, totalXp }) => ({ ...character, totalXp }));
+  }
+
+  async getRosterCharacter(userId: number, id: number): Promise<RosterCharacterWithXp | undefined> {
+    const [row] = await this.rosterCharacterWithXp().where(
+      and(eq(rosterCharacters.id, id), eq(rosterCharacters.userId, userId)),
+    );
+    return row && { ...row.character, totalXp: row.totalXp };
+  }
+
+  async createRosterCharacter(
+    userId: number,
+    campaignId: number,
+    insertCharacter: InsertRosterCharacter,
+  ): Promise<RosterCharacterWithXp> {
+    const [character] = await this.db
+      .insert(rosterCharacters)
+      .values({ ...insertCharacter, userId, campaignId })
+      .returning();
+    return { ...character, totalXp: 0 };
+  }
+
+  async updateRosterCharacter(
+    userId: number,
+    id: number,
+    update: Partial<InsertRosterCharacter>,
+  ): Promise<RosterCharacterWithXp | undefined> {
+    const [character] = await this.db
+      .update(rosterCharacters)
+      .set(update)
+      .where(and(eq(rosterCharacters.id, id), eq(rosterCharacters.userId, userId)))
+      .returning();
+    return character && this.getRosterCharacter(userId, character.id);
+  }
+
+  // Sessions keep their party as JSON, which no foreign key reaches, so their
+  // links to the character are dropped here
+  async deleteRosterCharacter(userId: number, id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(rosterCharacters)
+        .where(and(eq(rosterCharacters.id, id), eq(rosterCharacters.userId, userId)))
+        .returning({ campaignId: rosterCharacters.campaignId });
+      if (!deleted) {
+        return false;
+      }
+
+      const linked = await tx
+        .select({ id: sessions.id, characters: sessions.characters })
+        .from(sessions)
+        .where(and(eq(sessions.userId, userId), eq(sessions.campaignId, deleted.campaignId)));
+      for (const saved of linked.filter((row) => row.characters.some((char) => char.rosterCharacterId === id))) {
+        await tx
+          .update(sessions)
+          .set({ characters: unlinkRosterCharacter(saved.characters, id) })
+          .where(eq(sessions.id, saved.id));
+      }
+      return true;
+    });
+  }
+
+  async getBestiaryMonsters(userId: number): Promise<BestiaryMonster[]> {
+    return this.db
+      .select()
+      .from(bestiaryMonsters)
+      .where(eq(bestiaryMonsters.userId, userId))
+      .orderBy(asc(bestiaryMonsters.name));
+  }
+
+  async createBestiaryMonster(
+    userId: number,
+    insertMonster: InsertBestiaryMonster,
+  ): Promise<BestiaryMonster> {
+    const [monster] = await this.db
+      .insert(bestiaryMonsters)
+      .values({ ...insertMonster, userId })
+      .returning();
+    return monster;
+  }
+
+  async updateBestiaryMonster(
+    userId: number,
+    id: number,
+    update: Partial<InsertBestiaryMonster>,
+  ): Promise<BestiaryMonster | undefined> {
+    const [monster] = await this.db
+      .update(bestiaryMonsters)
+      .set(update)
+      .where(and(eq(bestiaryMonsters.id, id), eq(bestiaryMonsters.userId, userId)))
+      .returning();
+    return monster;
+  }
+
+  async deleteBestiaryMonster(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(bestiaryMonsters)
+      .where(and(eq(bestiaryMonsters.id, id), eq(bestiaryMonsters.userId, userId)))
+      .returning({ id: bestiaryMonsters.id });
+    return deleted.length > 0;
+  }
+
+  async getXpAwards(userId: number, rosterCharacterId: number): Promise<XpAward[]> {
+    return this.db
+      .select()
+      .from(xpAwards)
+      .where(and(eq(xpAwards.userId, userId), eq(xpAwards.rosterCharacterId, rosterCharacterId)))
+      .orderBy(desc(xpAwards.awardedAt));
+  }
+
+  async createXpAward(
+    userId: number,
+    rosterCharacterId: number,
+    insertAward: InsertXpAward,
+  ): Promise<XpAward> {
+    const [award] = await this.db
+      .insert(xpAwards)
+      .values({ ...insertAward, userId, rosterCharacterId })
+      .returning();
+    return award;
+  }
+
+  async awardCalculation(
+    userId: number,
+    calculationId: number,
+    awards: { rosterCharacterId: number; amount: number }[],
+  ): Promise<XpAward[] | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Only the request that marks the calculation awarded posts the XP
+      const [calculation] = await tx
+        .update(calculations)
+        .set({ awardedAt: new Date() })
+        .where(
+          and(eq(calculations.id, calculationId), eq(calculations.userId, userId), isNull(calculations.awardedAt)),
+        )
+        .returning();
+      if (!calculation) {
+        return undefined;
+      }
+
+      return tx
+        .insert(xpAwards)
+        .values(
+          awards.map((award) => ({
+            ...award,
+            userId,
+            calculationId,
+            awardedAt: calculation.awardedAt!,
+          })),
+        )
+        .returning();
+    });
+  }
+
+  async awardSession(
+    userId: number,
+    sessionId: number,
+    awards: { rosterCharacterId: number; amount: number }[],
+  ): Promise<XpAward[] | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [saved] = await tx
+        .update(sessions)
+        .set({ awardedAt: new Date() })
+        .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId), isNull(sessions.awardedAt)))
+        .returning();
+      if (!saved) {
+        return undefined;
+      }
+
+      return tx
+        .insert(xpAwards)
+        .values(
+          awards.map((award) => ({
+            ...award,
+            userId,
+            sessionId,
+            awardedAt: saved.awardedAt!,
+          })),
+        )
+        .returning();
+    });
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage =
+  db && pool ? new DatabaseStorage(db, pool) : new MemStorage();
@@ -0,0 +1,12 @@
+import type { Response } from "express";
+import type { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+// Zod failures become a 400 with a readable summary plus the raw issues, so
+// API clients can point at the offending field
+export function sendValidationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    message: fromZodError(error).message,
+    errors: error.issues,
+  });
+}
@@ -0,0 +1,191 @@
+// Class advancement tables: how much XP each level takes and the hit dice a
+// character has once they reach it. Pure data and lookups, like the engine.
+
+import type { CalculationResult, Character } from "./calculator";
+
+export type AdvancementLevel = {
+  xp: number;
+  hitDice: number;
+  modifier: number;
+};
+
+// Levels are listed in order, so level N is levels[N - 1]
+export type AdvancementTable = {
+  id: string;
+  name: string;
+  levels: AdvancementLevel[];
+};
+
+const level = (xp: number, hitDice: number, modifier = 0): AdvancementLevel => ({
+  xp,
+  hitDice,
+  modifier,
+});
+
+export const builtInAdvancementTables: AdvancementTable[] = [
+  {
+    id: "fighter",
+    name: "Fighter",
+    levels: [
+      level(0, 1),
+      level(2000, 2),
+      level(4000, 3),
+      level(8000, 4),
+      level(16000, 5),
+      level(32000, 6),
+      level(64000, 7),
+      level(120000, 8),
+      level(240000, 9),
+      level(360000, 9, 2),
+      level(480000, 9, 4),
+      level(600000, 9, 6),
+    ],
+  },
+  {
+    id: "magic-user",
+    name: "Magic-User",
+    levels: [
+      level(0, 1),
+      level(2500, 2),
+      level(5000, 3),
+      level(10000, 4),
+      level(20000, 5),
+      level(40000, 6),
+      level(80000, 7),
+      level(150000, 8),
+      level(300000, 9),
+      level(450000, 9, 1),
+      level(600000, 9, 2),
+      level(750000, 9, 3),
+    ],
+  },
+  {
+    id: "cleric",
+    name: "Cleric",
+    levels: [
+      level(0, 1),
+      level(1500, 2),
+      level(3000, 3),
+      level(6000, 4),
+      level(12000, 5),
+      level(25000, 6),
+      level(50000, 7),
+      level(100000, 8),
+      level(200000, 9),
+      level(300000, 9, 1),
+      level(400000, 9, 2),
+      level(500000, 9, 3),
+    ],
+  },
+  {
+    id: "thief",
+    name: "Thief",
+    levels: [
+      level(0, 1),
+      level(1200, 2),
+      level(2400, 3),
+      level(4800, 4),
+      level(9600, 5),
+      level(20000, 6),
+      level(40000, 7),
+      level(80000, 8),
+      level(160000, 9),
+      level(280000, 9, 2),
+      level(400000, 9, 4),
+      level(520000, 9, 6),
+    ],
+  },
+];
+
+/**
+ * Look a class up among the built-in tables and a campaign's own tables.
+ * Campaign tables win, so a GM can override a built-in class by reusing its id.
+ */
+export const findAdvancementTable = (
+  id: string | null | undefined,
+  customTables: AdvancementTable[] = [],
+): AdvancementTable | undefined => {
+  if (!id) return undefined;
+  return (
+    customTables.find((table) => table.id === id) ??
+    builtInAdvancementTables.find((table) => table.id === id)
+  );
+};
+
+export const levelForXp = (table: AdvancementTable, xp: number): number => {
+  const reached = table.levels.filter((lvl) => xp >= lvl.xp).length;
+  return Math.max(reached, 1);
+};
+
+export const levelDetails = (table: AdvancementTable, levelNumber: number): AdvancementLevel => {
+  return table.levels[Math.min(Math.max(levelNumber, 1), table.levels.length) - 1];
+};
+
+// XP still needed for the next level, or null at the top of the table
+export const xpToNextLevel = (table: AdvancementTable, xp: number): number | null => {
+  const next = table.levels[levelForXp(table, xp)];
+  return next ? next.xp - xp : null;
+};
+
+export type CharacterProgress = {
+  totalXp: number;
+  table: AdvancementTable;
+};
+
+export type LevelUp = {
+  characterId: number;
+  fromLevel: number;
+  toLevel: number;
+  hitDice: number;
+  modifier: number;
+};
+
+/**
+ * Flag every character whose XP from this result carries them over a level
+ * threshold. `progress` is keyed by the character's id in the calculation;
+ * characters without an entry (no class, not on the roster) are skipped.
+ */
+export const detectLevelUps = (
+  characters: Character[],
+  result: CalculationResult,
+  progress: Map<number, CharacterProgress>,
+): LevelUp[] => {
+  return characters.flatMap((char) => {
+    const charProgress = progress.get(char.id);
+    const charXp = result.characterXp.find((xp) => xp.characterId === char.id);
+    if (!charProgress || !charXp) return [];
+
+    const { totalXp, table } = charProgress;
+    const fromLevel = levelForXp(table, totalXp);
+    const toLevel = levelForXp(table, totalXp + charXp.totalXp);
+    if (toLevel <= fromLevel) return [];
+
+    const { hitDice, modifier } = levelDetails(table, toLevel);
+    return [{ characterId: char.id, fromLevel, toLevel, hitDice, modifier }];
+  });
+};
+
+/**
+ * Parse a custom table written one level per line as "<xp> <hit dice>",
+ * e.g. "2000 2" or "360000 9+2". Returns null when any line is malformed.
+ */
+export const parseAdvancementLevels = (text: string): AdvancementLevel[] | null => {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const levels: AdvancementLevel[] = [];
+  for (const line of lines) {
+    const match = line.match(/^(\d[\d,]*)\s+(\d+)\s*([+-]\s*\d+)?$/);
+    if (!match) return null;
+    levels.push(
+      level(
+        Number(match[1].replace(/,/g, "")),
+        Number(match[2]),
+        match[3] ? Number(match[3].replace(/\s/g, "")) : 0,
+      ),
+    );
+  }
+  return levels;
+};
@@ -0,0 +1,116 @@
+// A backup holds every saved calculation in one versioned JSON file, so a GM
+// can keep a copy or move their calculations to another account. Only the
+// inputs and dates are kept; results are worked out again on restore, as
+// they are when a calculation is first saved.
+
+import { z } from "zod";
+import {
+  characterSchema,
+  monsterSchema,
+  treasureSchema,
+  type SavedCalculation,
+} from "./schema";
+
+export const BACKUP_VERSION = 1;
+
+export const backupCalculationSchema = z.object({
+  // Server ids are numbers; the browser-only calculator used timestamp strings
+  id: z.union([z.number().int(), z.string()]),
+  campaignId: z.number().int().optional(),
+  // JSON stores dates as strings, so they are read back into dates here
+  date: z.coerce.date(),
+  characters: z.array(characterSchema).min(1, "Add at least one character"),
+  monsters: z.array(monsterSchema).min(1, "Add at least one monster"),
+  treasure: treasureSchema.nullable().default(null),
+});
+
+export type BackupCalculation = z.infer<typeof backupCalculationSchema>;
+
+export const calculationBackupSchema = z.object({
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.coerce.date(),
+  calculations: z.array(backupCalculationSchema),
+});
+
+export type CalculationBackup = z.infer<typeof calculationBackupSchema>;
+
+// Restoring files calculations from other accounts under the chosen campaign
+export const restoreBackupSchema = z.object({
+  campaignId: z.number().int().positive("Choose a campaign"),
+  backup: z.unknown(),
+  // "copy" restores a calculation whose id is taken by a different one as a new entry
+  onConflict: z.enum(["skip", "copy"]).default("skip"),
+});
+
+export type RestoreBackupInput = z.input<typeof restoreBackupSchema>;
+
+export type RestoreConflict = {
+  id: number | string;
+  date: Date;
+  message: string;
+};
+
+export type RestoreReport = {
+  restored: number;
+  // Already saved, e.g. from restoring the same file before
+  unchanged: number;
+  conflicts: RestoreConflict[];
+};
+
+export const createBackup = (calculations: SavedCalculation[]): CalculationBackup => ({
+  version: BACKUP_VERSION,
+  exportedAt: new Date(),
+  calculations: calculations.map(({ id, campaignId, date, characters, monsters, treasure }) => ({
+    id,
+    campaignId,
+    date,
+    characters,
+    monsters,
+    treasure,
+  })),
+});
+
+/**
+ * Read a backup file's parsed JSON. A bare array is taken to be the old
+ * `odnd-xp-calculations` browser storage and read as a version 1 backup.
+ */
+export const readBackup = (
+  payload: unknown,
+): { ok: true; backup: CalculationBackup } | { ok: false; error: string } => {
+  const file = Array.isArray(payload)
+    ? { version: BACKUP_VERSION, exportedAt: new Date(), calculations: payload }
+    : payload;
+  if (typeof file !== "object" || file === null || !("version" in file)) {
+    return { ok: false, error: "Not a calculation backup" };
+  }
+  if (typeof file.version === "number" && file.version > BACKUP_VERSION) {
+    return { ok: false, error: "This backup is from a newer version of the calculator" };
+  }
+
+  const parsed = calculationBackupSchema.safeParse(file);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    const [, index] = issue.path;
+    return {
+      ok: false,
+      error: typeof index === "number" ? `Calculation ${index + 1}: ${issue.message}` : issue.message,
+    };
+  }
+  return { ok: true, backup: parsed.data };
+};
+
+// The inputs in a fixed shape, leaving out ids the engine adds and roster
+// links, which do not survive a move between accounts
+const inputKey = (calculation: Pick<BackupCalculation, "characters" | "monsters" | "treasure">) =>
+  JSON.stringify({
+    characters: z
+      .array(characterSchema)
+      .parse(calculation.characters)
+      .map(({ rosterCharacterId, ...char }) => char),
+    monsters: z.array(monsterSchema).parse(calculation.monsters),
+    treasure: treasureSchema.nullable().parse(calculation.treasure),
+  });
+
+// Whether a backed-up calculation is already saved: same date, same inputs
+export const isSameCalculation = (saved: SavedCalculation, entry: BackupCalculation): boolean =>
+  saved.date.getTime() === entry.date.getTime() && inputKey(saved) === inputKey(entry);
@@ -0,0 +1,546 @@
+// Framework-free XP engine shared by the React page, the Express server and
+// any scripts. Everything here is pure: no DOM, no storage, no React.
+
+import {
+  applyRounding,
+  primevalArcanaRuleset,
+  type AdjustmentCurve,
+  type CharacterStatus,
+  type ParticipantRole,
+  type RulesetRules,
+  type ShareHandling,
+} from "./rulesets";
+
+export type CharacterInput = {
+  name?: string;
+  // The persistent roster character playing this party member, if any
+  rosterCharacterId?: number;
+  role?: ParticipantRole;
+  status?: CharacterStatus;
+  hitDice: number;
+  modifier: number;
+  // Weight of this character's cut when treasure is split by shares
+  treasureShare?: number;
+  // Prime requisite score (3-18), looked up for an XP bonus or penalty
+  primeRequisite?: number;
+  // A direct XP bonus percent, used instead of the prime requisite
+  xpBonus?: number;
+};
+
+export type MonsterInput = {
+  name?: string;
+  hitDice: number;
+  modifier: number;
+  // Special abilities, written as asterisks after the HD (3+1**)
+  specialAbilities?: number;
+  count: number;
+  // Ids of the characters who fought this monster; everyone when omitted
+  participants?: number[];
+};
+
+export type Character = {
+  id: number;
+  name: string;
+  rosterCharacterId?: number;
+  role: ParticipantRole;
+  status: CharacterStatus;
+  hitDice: number;
+  modifier: number;
+  treasureShare: number;
+  primeRequisite?: number;
+  xpBonus?: number;
+  effectiveHitDice: number;
+};
+
+export type Monster = {
+  id: number;
+  name: string;
+  hitDice: number;
+  modifier: number;
+  specialAbilities: number;
+  count: number;
+  participants?: number[];
+  effectiveHitDice: number;
+};
+
+export type Coins = {
+  cp: number;
+  sp: number;
+  ep: number;
+  gp: number;
+  pp: number;
+};
+
+export type TreasureSplit = "even" | "shares";
+
+// Treasure recovered, valued in gold pieces
+export type Treasure = {
+  coins: Coins;
+  gems: number;
+  jewelry: number;
+  // Magic items count at their sale value
+  magicItems: number;
+  xpPerGp: number;
+  split: TreasureSplit;
+};
+
+export type MonsterContribution = {
+  monsterId: number;
+  monsterName: string;
+  // False when the character sat this fight out; their XP for it is zero
+  participated: boolean;
+  baseXp: number;
+  adjustmentFactor: number;
+  adjustedXp: number;
+};
+
+export type CharacterXp = {
+  characterId: number;
+  effectiveHitDice: number;
+  adjustmentFactor: number;
+  // Monster XP after the adjustment factor
+  adjustedXp: number;
+  treasureXp: number;
+  // Prime requisite bonus or penalty on monster and treasure XP together
+  xpBonusPercent: number;
+  bonusXp: number;
+  // What the ruleset does with this character's share given their status
+  shareHandling: ShareHandling;
+  // XP earned but lost because the character's share is forfeit
+  forfeitedXp: number;
+  totalXp: number;
+  monsterContributions: MonsterContribution[];
+};
+
+export type CalculationResult = {
+  totalPartyHitDice: number;
+  totalMonsterHitDice: number;
+  monsterXp: number;
+  treasureValue: number;
+  treasureXp: number;
+  // Monster XP plus treasure XP
+  totalXp: number;
+  xpPerCharacter: number;
+  averagePartyLevel: number;
+  adjustmentFactor: number;
+  characterXp: CharacterXp[];
+};
+
+export type Calculation = {
+  characters: Character[];
+  monsters: Monster[];
+  treasure: Treasure | null;
+  result: CalculationResult;
+};
+
+// Base XP awarded per effective hit die under the default ruleset
+export const BASE_XP_PER_HD = primevalArcanaRuleset.baseXpPerHd;
+
+// A +1/-1 modifier is worth a quarter of a hit die under the default ruleset
+export const MODIFIER_FACTOR = primevalArcanaRuleset.modifierWeight;
+
+export const calculateEffectiveHitDice = (
+  hitDice: number,
+  modifier: number,
+  modifierWeight: number = MODIFIER_FACTOR,
+): number => {
+  return hitDice + modifier * modifierWeight;
+};
+
+// XP for a single monster of this kind before any sub-1 HD floor. Only table
+// rulesets pay for special abilities; per-hit-die rulesets ignore the asterisks.
+// A negative modifier drops a monster to the plus column of the row below, so
+// 2-1 HD is paid as 1+ and 1-1 HD as "less than 1".
+const calculateBaseUnitXp = (monster: Monster, rules: RulesetRules): number => {
+  if (rules.monsterXp.kind === "table") {
+    const { rows } = rules.monsterXp;
+    const index = rows.findLastIndex((r) => monster.hitDice >= r.hitDice);
+    if (index < 0) return 0;
+    const below = monster.modifier < 0 && index > 0;
+    const row = below ? rows[index - 1] : rows[index];
+    const plus = below || monster.modifier > 0;
+    const baseXp = plus ? row.plusXp : row.xp;
+    const abilityXp = plus ? row.plusAbilityXp : row.abilityXp;
+    return baseXp + abilityXp * monster.specialAbilities;
+  }
+  return monster.effectiveHitDice * rules.baseXpPerHd;
+};
+
+// XP for a single monster of this kind. Monsters under one hit die are worth
+// at least the ruleset's floor.
+export const calculateMonsterUnitXp = (
+  monster: Monster,
+  rules: RulesetRules = primevalArcanaRuleset,
+): number => {
+  const xp = calculateBaseUnitXp(monster, rules);
+  return monster.hitDice < 1 ? Math.max(xp, rules.subHitDieXpFloor) : xp;
+};
+
+export const calculateMonsterXp = (monster: Monster, rules: RulesetRules = primevalArcanaRuleset): number => {
+  return calculateMonsterUnitXp(monster, rules) * monster.count;
+};
+
+export const calculateTotalXp = (monsters: Monster[], rules: RulesetRules = primevalArcanaRuleset): number => {
+  return monsters.reduce((total, monster) => total + calculateMonsterXp(monster, rules), 0);
+};
+
+// Gold pieces per coin of each denomination
+export const COIN_VALUES: Coins = { cp: 0.01, sp: 0.1, ep: 0.5, gp: 1, pp: 5 };
+
+// One XP per gold piece recovered, the usual old-school rate
+export const DEFAULT_XP_PER_GP = 1;
+
+export const emptyTreasure: Treasure = {
+  coins: { cp: 0, sp: 0, ep: 0, gp: 0, pp: 0 },
+  gems: 0,
+  jewelry: 0,
+  magicItems: 0,
+  xpPerGp: DEFAULT_XP_PER_GP,
+  split: "even",
+};
+
+export const calculateTreasureValue = (treasure: Treasure): number => {
+  const coinValue = (Object.keys(COIN_VALUES) as (keyof Coins)[]).reduce(
+    (total, coin) => total + treasure.coins[coin] * COIN_VALUES[coin],
+    0,
+  );
+  // Round to the copper piece so 0.1 + 0.2 style drift never shows up
+  return Math.round((coinValue + treasure.gems + treasure.jewelry + treasure.magicItems) * 100) / 100;
+};
+
+// The usual OD&D-style prime requisite adjustment, from -20% to +10%
+export const calculatePrimeRequisiteBonus = (score: number): number => {
+  if (score <= 5) return -20;
+  if (score <= 8) return -10;
+  if (score <= 12) return 0;
+  if (score <= 15) return 5;
+  return 10;
+};
+
+// A direct percent wins over the prime requisite score
+export const calculateXpBonusPercent = (char: Pick<Character, "primeRequisite" | "xpBonus">): number => {
+  if (char.xpBonus !== undefined) return char.xpBonus;
+  if (char.primeRequisite !== undefined) return calculatePrimeRequisiteBonus(char.primeRequisite);
+  return 0;
+};
+
+export const calculateShareWeight = (
+  char: Pick<Character, "role">,
+  rules: RulesetRules = primevalArcanaRuleset,
+): number => {
+  return rules.shareWeights[char.role];
+};
+
+export const calculateShareHandling = (
+  char: Pick<Character, "status">,
+  rules: RulesetRules = primevalArcanaRuleset,
+): ShareHandling => {
+  return char.status === "present" ? "keep" : rules.statusHandling[char.status];
+};
+
+export const tookPart = (monster: Pick<Monster, "participants">, characterId: number): boolean => {
+  return !monster.participants || monster.participants.includes(characterId);
+};
+
+// How many full shares monster XP is divided into
+export const calculateTotalShares = (
+  characters: Character[],
+  rules: RulesetRules = primevalArcanaRuleset,
+): number => {
+  return characters.reduce((total, char) => {
+    const weight = calculateShareWeight(char, rules);
+    return total + (weight === 0 && rules.zeroSharesCountTowardHeadcount ? 1 : weight);
+  }, 0);
+};
+
+export const calculateAdjustmentFactor = (
+  characterHD: number,
+  monsterHD: number,
+  curve: AdjustmentCurve = primevalArcanaRuleset.adjustment,
+): number => {
+  if (characterHD <= monsterHD || curve.kind === "none") {
+    return 1.0; // Character gets 100% of XP if their HD is less than or equal to monster HD
+  }
+  if (curve.kind === "stepped") {
+    // Only whole HD of difference count, so 1.5 HD above is still one step
+    const step = Math.floor(characterHD - monsterHD);
+    if (step < 1 || curve.steps.length === 0) return 1.0;
+    return curve.steps[Math.min(step, curve.steps.length) - 1];
+  }
+  return monsterHD / characterHD; // Reduced XP based on ratio
+};
+
+// Fractions of a hit die written the way the books print them
+const fractionGlyphs: Record<string, string> = { "0.25": "¼", "0.5": "½", "0.75": "¾" };
+
+// Whole hit dice as a number, ½ style glyphs for the common fractions, and
+// anything smaller as a fraction of eighths (1 hp is ⅛ of a d8) or a decimal
+const formatHitDiceCount = (hitDice: number): string => {
+  const whole = Math.floor(hitDice);
+  const fraction = hitDice - whole;
+  if (fraction === 0) return `${whole}`;
+  const glyph = fractionGlyphs[String(fraction)];
+  if (glyph) return `${whole || ""}${glyph}`;
+  const eighths = fraction * 8;
+  if (whole === 0 && Number.isInteger(eighths)) return `${eighths}/8`;
+  return `${Math.round(hitDice * 100) / 100}`;
+};
+
+// Helper to format hit dice display with modifier and special ability asterisks
+export const formatHitDice = (hitDice: number, modifier: number, specialAbilities = 0): string => {
+  const asterisks = "*".repeat(specialAbilities);
+  const count = formatHitDiceCount(hitDice);
+  if (modifier > 0) {
+    return `${count}+${modifier}${asterisks}`;
+  } else if (modifier < 0) {
+    return `${count}${modifier}${asterisks}`;
+  } else {
+    return `${count}${asterisks}`;
+  }
+};
+
+export const formatPercent = (percent: number): string => `${percent > 0 ? "+" : ""}${percent}%`;
+
+export const formatSignedXp = (xp: number): string => `${xp > 0 ? "+" : ""}${xp.toLocaleString()}`;
+
+export type ParsedHitDice = {
+  hitDice: number;
+  modifier: number;
+  specialAbilities: number;
+};
+
+const unicodeFractions: Record<string, number> = { "¼": 0.25, "½": 0.5, "¾": 0.75 };
+
+/**
+ * Read hit dice the way the books write them: "3+3", "1-1", "½", "1/2",
+ * "2d8+1", "1d4 hp" or "7**". Dice count in d8s, so "1d4 hp" is half a hit
+ * die. Returns null when the text is not hit dice notation.
+ */
+export const parseHitDice = (text: string): ParsedHitDice | null => {
+  const match = text
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .match(/^(?:(\d*)d(\d+)|(\d*)([¼½¾])|(\d+)\/(\d+)|(\d+(?:\.\d+)?))([+-]\d+)?(hd|hp)?(\**)$/);
+  if (!match) return null;
+
+  const [, diceCount, diceSides, whole, fraction, numerator, denominator, plain, modifier, unit, asterisks] = match;
+  // Hit points only make sense when they are rolled
+  if (unit === "hp" && !diceSides) return null;
+
+  let hitDice: number;
+  if (diceSides) {
+    hitDice = (Number(diceCount || 1) * Number(diceSides)) / 8;
+  } else if (fraction) {
+    hitDice = Number(whole || 0) + unicodeFractions[fraction];
+  } else if (denominator) {
+    hitDice = Number(denominator) > 0 ? Number(numerator) / Number(denominator) : 0;
+  } else {
+    hitDice = Number(plain);
+  }
+  if (hitDice <= 0) return null;
+
+  return {
+    hitDice,
+    modifier: modifier ? Number(modifier) : 0,
+    specialAbilities: asterisks.length,
+  };
+};
+
+export const toCharacters = (
+  party: CharacterInput[],
+  rules: RulesetRules = primevalArcanaRuleset,
+): Character[] => {
+  return party.map((char, index) => ({
+    id: index + 1,
+    name: char.name || `Character ${index + 1}`,
+    rosterCharacterId: char.rosterCharacterId,
+    role: char.role ?? "pc",
+    status: char.status ?? "present",
+    hitDice: char.hitDice,
+    modifier: char.modifier,
+    treasureShare: char.treasureShare ?? 1,
+    primeRequisite: char.primeRequisite,
+    xpBonus: char.xpBonus,
+    effectiveHitDice: calculateEffectiveHitDice(char.hitDice, char.modifier, rules.modifierWeight),
+  }));
+};
+
+export const toMonsters = (
+  encounter: MonsterInput[],
+  rules: RulesetRules = primevalArcanaRuleset,
+): Monster[] => {
+  return encounter.map((monster, index) => ({
+    id: index + 1,
+    name: monster.name || `Monster ${index + 1}`,
+    hitDice: monster.hitDice,
+    modifier: monster.modifier,
+    specialAbilities: monster.specialAbilities ?? 0,
+    count: monster.count,
+    participants: monster.participants,
+    effectiveHitDice: calculateEffectiveHitDice(monster.hitDice, monster.modifier, rules.modifierWeight),
+  }));
+};
+
+/**
+ * Split every monster's XP across the party by each member's role share,
+ * then scale each character's share by how their HD compares to that
+ * monster's HD, using the ruleset's adjustment curve and rounding. Treasure XP is never
+ * adjusted; it is split evenly or by each character's treasure share.
+ */
+export const calculateResult = (
+  characters: Character[],
+  monsters: Monster[],
+  rules: RulesetRules = primevalArcanaRuleset,
+  treasure: Treasure | null = null,
+): CalculationResult => {
+  // Calculate party stats
+  const totalPartyHitDice = characters.reduce((total, char) => total + char.effectiveHitDice, 0);
+  const averagePartyLevel = characters.length > 0 ? totalPartyHitDice / characters.length : 0;
+
+  // Calculate monster stats
+  const totalMonsterCount = monsters.reduce((total, monster) => total + monster.count, 0);
+  const totalMonsterHitDice = monsters.reduce(
+    (total, monster) => total + monster.effectiveHitDice * monster.count,
+    0
+  );
+  const averageMonsterLevel = totalMonsterCount > 0
+    ? totalMonsterHitDice / totalMonsterCount
+    : 0;
+
+  // Calculate overall adjustment factor (for display only)
+  const overallAdjustmentFactor = calculateAdjustmentFactor(averagePartyLevel, averageMonsterLevel, rules.adjustment);
+
+  // Henchmen and hirelings take a smaller cut than PCs, and each monster's
+  // XP is only divided among the characters who fought it. Characters whose
+  // share returns to the pool drop out of every division.
+  const sharing = characters.filter((char) => calculateShareHandling(char, rules) !== "pool");
+  const totalShares = calculateTotalShares(sharing, rules);
+  const monsterShares = new Map(
+    monsters.map((monster) => [
+      monster.id,
+      calculateTotalShares(sharing.filter((char) => tookPart(monster, char.id)), rules),
+    ]),
+  );
+
+  // Calculate treasure stats
+  const treasureValue = treasure ? calculateTreasureValue(treasure) : 0;
+  const treasureXp = treasure ? applyRounding(treasureValue * treasure.xpPerGp, rules.rounding) : 0;
+  const totalTreasureShares = sharing.reduce((total, char) => total + char.treasureShare, 0);
+  const treasureShareOf = (char: Character): number => {
+    if (!treasure || !sharing.includes(char)) return 0;
+    if (treasure.split === "shares") {
+      return totalTreasureShares > 0
+        ? applyRounding((treasureXp * char.treasureShare) / totalTreasureShares, rules.rounding)
+        : 0;
+    }
+    return applyRounding(treasureXp / sharing.length, rules.rounding);
+  };
+
+  const characterXp = characters.map((char): CharacterXp => {
+    const shareWeight = calculateShareWeight(char, rules);
+    const shareHandling = calculateShareHandling(char, rules);
+
+    // Process each monster's contribution to this character
+    const monsterContributions = monsters.map((monster): MonsterContribution => {
+      // Step 1: Calculate total XP for this monster
+      const monsterTotalXp = calculateMonsterXp(monster, rules);
+
+      // Step 2: Take this character's share of it with rounding, if they fought it
+      const participated = tookPart(monster, char.id);
+      const shares = monsterShares.get(monster.id) ?? 0;
+      const perCharacterShare = participated && shareHandling !== "pool" && shares > 0
+        ? applyRounding((monsterTotalXp * shareWeight) / shares, rules.rounding)
+        : 0;
+
+      // Step 3: Calculate adjustment factor for this character vs this monster
+      const adjustmentFactor = calculateAdjustmentFactor(
+        char.effectiveHitDice,
+        monster.effectiveHitDice,
+        rules.adjustment,
+      );
+
+      // Step 4: Calculate the final adjusted XP for this monster
+      const adjustedXp = applyRounding(perCharacterShare * adjustmentFactor, rules.rounding);
+
+      return {
+        monsterId: monster.id,
+        monsterName: monster.name,
+        participated,
+        baseXp: perCharacterShare,
+        adjustmentFactor,
+        adjustedXp,
+      };
+    });
+
+    // Sum up all monster contributions for this character
+    const totalCharacterXp = monsterContributions.reduce((sum, contrib) => sum + contrib.adjustedXp, 0);
+
+    // Calculate the overall adjustment factor across all monsters for this character
+    const totalBaseXp = monsterContributions.reduce((sum, contrib) => sum + contrib.baseXp, 0);
+    const charAdjustmentFactor = totalBaseXp > 0 ? totalCharacterXp / totalBaseXp : 0;
+
+    const charTreasureXp = treasureShareOf(char);
+
+    // The prime requisite bonus comes after the adjustment factor
+    const xpBonusPercent = calculateXpBonusPercent(char);
+    const bonusXp = applyRounding(((totalCharacterXp + charTreasureXp) * xpBonusPercent) / 100, rules.rounding);
+    const earnedXp = totalCharacterXp + charTreasureXp + bonusXp;
+    const forfeited = shareHandling === "forfeit";
+
+    return {
+      characterId: char.id,
+      effectiveHitDice: char.effectiveHitDice,
+      adjustmentFactor: charAdjustmentFactor,
+      adjustedXp: totalCharacterXp,
+      treasureXp: charTreasureXp,
+      xpBonusPercent,
+      bonusXp,
+      shareHandling,
+      forfeitedXp: forfeited ? earnedXp : 0,
+      totalXp: forfeited ? 0 : earnedXp,
+      monsterContributions,
+    };
+  });
+
+  // Monster XP is what the monsters are worth before any adjustment
+  const monsterXp = calculateTotalXp(monsters, rules);
+  const totalXp = monsterXp + treasureXp;
+  // Base XP per character is what one full share of the monsters is worth,
+  // plus an even cut of the treasure
+  const xpPerCharacter = sharing.length > 0
+    ? (totalShares > 0 ? monsterXp / totalShares : 0) + treasureXp / sharing.length
+    : 0;
+
+  return {
+    totalPartyHitDice,
+    totalMonsterHitDice,
+    monsterXp,
+    treasureValue,
+    treasureXp,
+    totalXp,
+    xpPerCharacter,
+    averagePartyLevel,
+    adjustmentFactor: overallAdjustmentFactor,
+    characterXp,
+  };
+};
+
+/**
+ * Run a full calculation for a party against an encounter under a ruleset,
+ * Primeval Arcana unless told otherwise, with any treasure recovered.
+ */
+export const calculate = (
+  party: CharacterInput[],
+  encounter: MonsterInput[],
+  rules: RulesetRules = primevalArcanaRuleset,
+  treasure: Treasure | null = null,
+): Calculation => {
+  const characters = toCharacters(party, rules);
+  const monsters = toMonsters(encounter, rules);
+  return {
+    characters,
+    monsters,
+    treasure,
+    result: calculateResult(characters, monsters, rules, treasure),
+  };
+};
@@ -0,0 +1,33 @@
+// The bundled monster catalogue: classic open-content monsters shipped with
+// the app, so a new campaign has something to pick from before the GM has
+// built a bestiary of their own.
+
+import srdMonsters from "./srd-monsters.json";
+
+export type CatalogueMonster = {
+  name: string;
+  hitDice: number;
+  modifier: number;
+  specialAbilities: number;
+  notes: string;
+  // Where the entry comes from, e.g. "SRD"
+  source: string;
+};
+
+export const catalogueLicense = srdMonsters.license;
+
+export const srdCatalogue: CatalogueMonster[] = srdMonsters.monsters.map((monster) => ({
+  ...monster,
+  source: srdMonsters.source,
+}));
+
+export const findCatalogueMonster = (name: string): CatalogueMonster | undefined => {
+  const wanted = name.trim().toLowerCase();
+  return srdCatalogue.find((monster) => monster.name.toLowerCase() === wanted);
+};
+
+// Case-insensitive match on the name, e.g. "giant" finds every giant
+export const searchCatalogue = (query: string): CatalogueMonster[] => {
+  const wanted = query.trim().toLowerCase();
+  return wanted ? srdCatalogue.filter((monster) => monster.name.toLowerCase().includes(wanted)) : srdCatalogue;
+};
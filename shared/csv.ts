@@ -0,0 +1,239 @@
+// CSV in and out of the calculator. Importing reads a party or a monster list
+// from a spreadsheet, with each form field mapped to one of its columns;
+// exporting writes the per-character, per-monster XP matrix for pasting into
+// a campaign ledger.
+
+import { formatHitDice, parseHitDice } from "./calculator";
+import { characterStatusNames, characterStatuses, participantRoleNames, participantRoles } from "./rulesets";
+import { calculatorSchema, type CalculatorInput } from "./schema";
+import type { ReportInput } from "./export";
+
+export type CsvCell = string | number;
+
+// Spreadsheets copy as tabs and European locales save with semicolons, so
+// the delimiter is whichever of the three the header line uses most
+export const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts = [",", ";", "\t"].map((delimiter) => ({ delimiter, count: header.split(delimiter).length }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+};
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may hold delimiters,
+ * line breaks and doubled quotes; blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map((cells) => cells.map((value) => value.trim()))
+    .filter((cells) => cells.some((value) => value !== ""));
+};
+
+// Spreadsheets run a cell that starts with one of these as a formula, so a
+// name like "=HYPERLINK(...)" is written with a leading apostrophe to keep it
+// text. Numbers are left alone; a negative XP value is not a formula.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const quoteCell = (cell: CsvCell, delimiter: string): string => {
+  const text = typeof cell === "string" && FORMULA_START.test(cell) ? `'${cell}` : String(cell);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][], delimiter = ","): string =>
+  rows.map((cells) => cells.map((cell) => quoteCell(cell, delimiter)).join(delimiter)).join("\r\n");
+
+export type CsvImportKind = "characters" | "monsters";
+
+export type CsvField = {
+  field: string;
+  label: string;
+  // Lower-case header names that map to this field without asking
+  aliases: string[];
+};
+
+export const csvFields: Record<CsvImportKind, CsvField[]> = {
+  characters: [
+    { field: "name", label: "Name", aliases: ["name", "character", "pc"] },
+    { field: "hitDice", label: "Hit Dice", aliases: ["hit dice", "hitdice", "hd", "level"] },
+    { field: "modifier", label: "Modifier", aliases: ["modifier", "mod", "hd modifier", "bonus hp"] },
+    { field: "role", label: "Role", aliases: ["role", "type"] },
+    { field: "status", label: "Status", aliases: ["status", "condition"] },
+    { field: "treasureShare", label: "Treasure Share", aliases: ["treasure share", "share", "shares"] },
+    { field: "primeRequisite", label: "Prime Req.", aliases: ["prime requisite", "prime req", "prime req.", "pr"] },
+    { field: "xpBonus", label: "XP Bonus %", aliases: ["xp bonus", "bonus", "xp bonus %"] },
+  ],
+  monsters: [
+    { field: "name", label: "Name", aliases: ["name", "monster"] },
+    { field: "hitDice", label: "Hit Dice", aliases: ["hit dice", "hitdice", "hd"] },
+    { field: "modifier", label: "Modifier", aliases: ["modifier", "mod"] },
+    { field: "specialAbilities", label: "Abilities (*)", aliases: ["special abilities", "abilities", "asterisks", "*"] },
+    { field: "count", label: "Count", aliases: ["count", "number", "no.", "#", "qty", "quantity"] },
+  ],
+};
+
+// Field name to column index; fields left out are not imported
+export type CsvColumnMapping = Record<string, number>;
+
+export const guessColumnMapping = (headers: string[], kind: CsvImportKind): CsvColumnMapping => {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  return Object.fromEntries(
+    csvFields[kind].flatMap(({ field, aliases }) => {
+      const column = normalized.findIndex((header) => aliases.includes(header));
+      return column === -1 ? [] : [[field, column]];
+    }),
+  );
+};
+
+const numberFields = ["modifier", "treasureShare", "primeRequisite", "xpBonus", "specialAbilities", "count"];
+
+// Accept either the stored value or its display name, e.g. "henchman" or "Henchman"
+const matchOption = <T extends string>(value: string, options: readonly T[], names: Record<T, string>): string => {
+  const wanted = value.toLowerCase();
+  return options.find((option) => option === wanted || names[option].toLowerCase() === wanted) ?? value;
+};
+
+// What an empty form row starts with
+const rowDefaults: Record<CsvImportKind, Record<string, unknown>> = {
+  characters: { name: "", modifier: 0 },
+  monsters: { name: "", modifier: 0, count: 1 },
+};
+
+// One spreadsheet row as form values. Blank cells are left out so the
+// schema's defaults apply; anything unreadable is passed on for the schema
+// to reject with its usual message.
+const toFormRow = (cells: string[], mapping: CsvColumnMapping, kind: CsvImportKind): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  Object.entries(mapping).forEach(([field, column]) => {
+    const value = cells[column]?.trim() ?? "";
+    if (value === "") return;
+    if (field === "name") {
+      row.name = value;
+    } else if (field === "hitDice") {
+      // Hit dice may come as notation, e.g. "3+1" or "½", which also carries
+      // the modifier and asterisks unless those have columns of their own
+      const parsed = parseHitDice(value);
+      row.hitDice = parsed ? parsed.hitDice : Number(value);
+      if (parsed && mapping.modifier === undefined) row.modifier = parsed.modifier;
+      if (parsed && kind === "monsters" && mapping.specialAbilities === undefined) {
+        row.specialAbilities = parsed.specialAbilities;
+      }
+    } else if (field === "role") {
+      row.role = matchOption(value, participantRoles, participantRoleNames);
+    } else if (field === "status") {
+      row.status = matchOption(value, characterStatuses, characterStatusNames);
+    } else if (numberFields.includes(field)) {
+      row[field] = Number(value.replace(/[%+]/g, ""));
+    }
+  });
+  return { ...rowDefaults[kind], ...row };
+};
+
+export type CsvRowError = {
+  // 1-based, counting the header, as a spreadsheet numbers its rows
+  row: number;
+  message: string;
+};
+
+export type CsvImport<K extends CsvImportKind> =
+  | { ok: true; rows: Record<string, unknown>[]; values: CalculatorInput[K] }
+  | { ok: false; rows: Record<string, unknown>[]; errors: CsvRowError[] };
+
+/**
+ * Read the data rows of a CSV (everything under the header) into the party
+ * or the monster list, checked against the calculator schema.
+ */
+export const importCsvRows = <K extends CsvImportKind>(
+  dataRows: string[][],
+  mapping: CsvColumnMapping,
+  kind: K,
+): CsvImport<K> => {
+  const rows = dataRows.map((cells) => toFormRow(cells, mapping, kind));
+  const parsed = calculatorSchema.shape[kind].safeParse(rows);
+  if (parsed.success) return { ok: true, rows, values: parsed.data as CalculatorInput[K] };
+
+  const label = (field: string | number | undefined) =>
+    csvFields[kind].find((candidate) => candidate.field === field)?.label ?? "";
+  return {
+    ok: false,
+    rows,
+    errors: parsed.error.issues.map((issue) => {
+      const [index, field] = issue.path;
+      return typeof index === "number"
+        ? { row: index + 2, message: `${label(field) ? `${label(field)}: ` : ""}${issue.message}` }
+        : { row: 0, message: issue.message };
+    }),
+  };
+};
+
+/**
+ * The result as a spreadsheet: one row per character with the XP from each
+ * monster, then treasure, bonus, forfeit and total columns.
+ */
+export const resultMatrix = ({ characters, monsters, result }: ReportInput): CsvCell[][] => {
+  const header = [
+    "Character",
+    "HD",
+    "Role",
+    "Status",
+    ...monsters.map((monster) => `${monster.name} (${formatHitDice(monster.hitDice, monster.modifier, monster.specialAbilities)} HD ×${monster.count})`),
+    "Treasure XP",
+    "Bonus XP",
+    "Forfeited XP",
+    "Total XP",
+  ];
+  const rows = result.characterXp.flatMap((charXp) => {
+    const character = characters.find((c) => c.id === charXp.characterId);
+    if (!character) return [];
+    return [
+      [
+        character.name,
+        formatHitDice(character.hitDice, character.modifier),
+        participantRoleNames[character.role],
+        characterStatusNames[character.status],
+        ...monsters.map((monster) => {
+          const contrib = charXp.monsterContributions.find((c) => c.monsterId === monster.id);
+          // Blank rather than 0 for fights the character sat out
+          return contrib && contrib.participated !== false ? Math.round(contrib.adjustedXp) : "";
+        }),
+        charXp.treasureXp,
+        charXp.bonusXp,
+        charXp.forfeitedXp,
+        Math.round(charXp.totalXp),
+      ],
+    ];
+  });
+  return [header, ...rows];
+};
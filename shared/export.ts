@@ -0,0 +1,371 @@
+// Exporting a result for sharing is done in two steps. The result is first
+// laid out as a format-neutral report of headings, lines and list items, and
+// each exporter then renders that report in its own markup. A new format only
+// needs a renderer, never its own copy of the layout. The emoji layout is the
+// exception: it is the default clipboard template, so a campaign's own
+// templates can start from it.
+
+import {
+  formatHitDice,
+  formatPercent,
+  formatSignedXp,
+  type CalculationResult,
+  type Character,
+  type Monster,
+  type Treasure,
+} from "./calculator";
+import { characterStatusNames, participantRoleNames, type RulesetDefinition } from "./rulesets";
+import { buildTemplateContext, defaultClipboardTemplate, fallenCharacters, renderTemplate } from "./template";
+import { resultMatrix, toCsv } from "./csv";
+import type { LevelUp } from "./advancement";
+
+export type ReportInput = {
+  characters: Character[];
+  monsters: Monster[];
+  treasure: Treasure | null;
+  result: CalculationResult;
+  ruleset: RulesetDefinition;
+  levelUps: LevelUp[];
+};
+
+// `decorated` is the same text dressed up with emoji, for the formats that
+// want it
+export type ReportBlock =
+  | { kind: "heading"; level: 1 | 2 | 3; text: string; decorated?: string }
+  | { kind: "line"; text: string; decorated?: string }
+  | { kind: "item"; text: string }
+  | { kind: "break" };
+
+/**
+ * Lay a calculation out as a report: the encounter, party, monsters and
+ * treasure, the XP totals, each character's breakdown and a memorial for
+ * the fallen.
+ */
+export const buildReport = ({ characters, monsters, treasure, result, ruleset, levelUps }: ReportInput): ReportBlock[] => {
+  const blocks: ReportBlock[] = [];
+  const heading = (level: 1 | 2 | 3, text: string, decorated?: string) =>
+    blocks.push({ kind: "heading", level, text, decorated });
+  const line = (text: string, decorated?: string) => blocks.push({ kind: "line", text, decorated });
+  const item = (text: string) => blocks.push({ kind: "item", text });
+  const gap = () => blocks.push({ kind: "break" });
+
+  heading(1, "Primeval Arcana XP Calculator", "🧙‍♂️ Primeval Arcana XP Calculator 🧙‍♂️");
+  gap();
+
+  // Party and monster summary
+  heading(2, "Encounter Summary", "⚔️ Encounter Summary ⚔️");
+  line(`${characters.length} adventurers vs ${monsters.reduce((sum, m) => sum + m.count, 0)} monsters`);
+  line(`Ruleset: ${ruleset.name}`);
+  gap();
+
+  // Party details
+  heading(3, "Party", "👥 Party");
+  characters.forEach((char) => {
+    const role = char.role !== "pc" ? `, ${participantRoleNames[char.role]}` : "";
+    const status = char.status !== "present" ? `, ${characterStatusNames[char.status]}` : "";
+    item(`${char.name} (${formatHitDice(char.hitDice, char.modifier)} HD${role}${status})`);
+  });
+  line(`Total Party HD: ${result.totalPartyHitDice.toFixed(2)}`);
+  gap();
+
+  // Monster details
+  heading(3, "Monsters", "👹 Monsters");
+  monsters.forEach((monster) => {
+    item(`${monster.count}× ${monster.name} (${formatHitDice(monster.hitDice, monster.modifier, monster.specialAbilities)} HD)`);
+  });
+  line(`Total Monster HD: ${result.totalMonsterHitDice.toFixed(2)}`);
+  gap();
+
+  // Treasure details
+  if (treasure) {
+    heading(3, "Treasure", "💎 Treasure");
+    const coins = (["pp", "gp", "ep", "sp", "cp"] as const)
+      .filter((coin) => treasure.coins[coin] > 0)
+      .map((coin) => `${treasure.coins[coin].toLocaleString()} ${coin}`);
+    if (coins.length > 0) item(`Coins: ${coins.join(", ")}`);
+    if (treasure.gems > 0) item(`Gems: ${treasure.gems.toLocaleString()} gp`);
+    if (treasure.jewelry > 0) item(`Jewelry: ${treasure.jewelry.toLocaleString()} gp`);
+    if (treasure.magicItems > 0) item(`Magic Items: ${treasure.magicItems.toLocaleString()} gp`);
+    const split = treasure.split === "shares" ? " (split by shares)" : "";
+    line(`Total Treasure: ${result.treasureValue.toLocaleString()} gp at ${treasure.xpPerGp} XP/gp${split}`);
+    gap();
+  }
+
+  // XP Summary
+  heading(2, "XP Summary", "💰 XP Summary 💰");
+  line(`Monster XP: ${result.monsterXp.toLocaleString()} XP`);
+  if (treasure) {
+    line(`Treasure XP: ${result.treasureXp.toLocaleString()} XP`);
+  }
+  line(`Total XP: ${result.totalXp.toLocaleString()} XP`);
+  line(`Base XP Per Character: ${Math.round(result.xpPerCharacter).toLocaleString()} XP`);
+  gap();
+
+  // Character XP Breakdown
+  heading(2, "Character XP Breakdown", "📊 Character XP Breakdown 📊");
+  result.characterXp.forEach((charXp) => {
+    const character = characters.find((c) => c.id === charXp.characterId);
+    if (!character) return;
+
+    const title = `${character.name} - ${Math.round(charXp.totalXp).toLocaleString()} XP`;
+    heading(3, title, `${title} 🎯`);
+    const levelUp = levelUps.find((lvl) => lvl.characterId === charXp.characterId);
+    if (levelUp) {
+      const text = `Level up! ${levelUp.fromLevel} → ${levelUp.toLevel}`;
+      line(text, `⬆️ ${text}`);
+    }
+
+    // Monster contributions
+    charXp.monsterContributions.forEach((contrib) => {
+      const monster = monsters.find((m) => m.id === contrib.monsterId);
+      if (!monster) return;
+
+      if (contrib.participated === false) {
+        item(`${monster.name}: did not take part`);
+        return;
+      }
+      const adjusted = contrib.adjustmentFactor < 1.0 ? ` (adjusted: ×${contrib.adjustmentFactor.toFixed(2)})` : "";
+      item(`${monster.name}: ${Math.round(contrib.adjustedXp).toLocaleString()} XP${adjusted}`);
+    });
+    if (treasure) {
+      item(`Treasure: ${charXp.treasureXp.toLocaleString()} XP`);
+    }
+    if (charXp.xpBonusPercent !== 0) {
+      item(`Prime Requisite (${formatPercent(charXp.xpBonusPercent)}): ${formatSignedXp(charXp.bonusXp)} XP`);
+    }
+    if (charXp.shareHandling === "forfeit") {
+      item(`${characterStatusNames[character.status]}, share forfeit: ${formatSignedXp(-charXp.forfeitedXp)} XP`);
+    } else if (charXp.shareHandling === "pool") {
+      item(`${characterStatusNames[character.status]}, share returned to the party`);
+    }
+    gap();
+  });
+
+  // A line for each character who did not make it back
+  const fallen = fallenCharacters({ characters, result });
+  if (fallen.length > 0) {
+    heading(2, "In Memoriam", "🕯️ In Memoriam 🕯️");
+    fallen.forEach(({ epitaph }) => item(epitaph));
+    gap();
+  }
+
+  return blocks;
+};
+
+// Discord refuses messages over 2000 characters
+export const DISCORD_MESSAGE_LIMIT = 2000;
+
+const renderMarkdown = (blocks: ReportBlock[], emoji: boolean): string =>
+  blocks
+    .map((block) => {
+      switch (block.kind) {
+        case "heading":
+          return `${"#".repeat(block.level)} ${(emoji && block.decorated) || block.text}`;
+        case "line":
+          return (emoji && block.decorated) || block.text;
+        case "item":
+          return `- ${block.text}`;
+        default:
+          return "";
+      }
+    })
+    .join("\n");
+
+/**
+ * Split text into pieces of at most `limit` characters, breaking between
+ * lines. A single line longer than the limit is cut wherever it has to be.
+ */
+export const splitIntoChunks = (text: string, limit: number = DISCORD_MESSAGE_LIMIT): string[] => {
+  const chunks: string[] = [];
+  let current = "";
+  text.split("\n").forEach((line) => {
+    const next = current ? `${current}\n${line}` : line;
+    if (next.length <= limit) {
+      current = next;
+      return;
+    }
+    if (current.trim()) chunks.push(current.trimEnd());
+    current = line;
+    while (current.length > limit) {
+      chunks.push(current.slice(0, limit));
+      current = current.slice(limit);
+    }
+  });
+  if (current.trim()) chunks.push(current.trimEnd());
+  return chunks;
+};
+
+// Packs whole sections into each message where it can, so a character's
+// breakdown is not torn across two posts
+const renderDiscord = (blocks: ReportBlock[]): string[] => {
+  const sections: string[] = [];
+  blocks.forEach((block, index) => {
+    const text = renderMarkdown([block], true);
+    if (block.kind === "heading" || index === 0) {
+      sections.push(text);
+    } else {
+      sections[sections.length - 1] += `\n${text}`;
+    }
+  });
+
+  const messages: string[] = [];
+  let current = "";
+  sections.flatMap((section) => splitIntoChunks(section.trim())).forEach((section) => {
+    const next = current ? `${current}\n\n${section}` : section;
+    if (next.length <= DISCORD_MESSAGE_LIMIT) {
+      current = next;
+    } else {
+      messages.push(current);
+      current = section;
+    }
+  });
+  if (current) messages.push(current);
+  return messages;
+};
+
+// Runs of list items become one list
+const groupItems = (
+  blocks: ReportBlock[],
+  renderList: (items: string[]) => string,
+  renderBlock: (block: Exclude<ReportBlock, { kind: "item" }>) => string,
+): string => {
+  const out: string[] = [];
+  let items: string[] = [];
+  const flush = () => {
+    if (items.length > 0) out.push(renderList(items));
+    items = [];
+  };
+  blocks.forEach((block) => {
+    if (block.kind === "item") {
+      items.push(block.text);
+    } else {
+      flush();
+      out.push(renderBlock(block));
+    }
+  });
+  flush();
+  return out.join("\n");
+};
+
+const bbcodeHeadingSizes = { 1: 150, 2: 120, 3: 100 } as const;
+
+const renderBbcode = (blocks: ReportBlock[]): string =>
+  groupItems(
+    blocks,
+    (items) => `[list]\n${items.map((text) => `[*]${text}`).join("\n")}\n[/list]`,
+    (block) => {
+      switch (block.kind) {
+        case "heading":
+          return block.level === 3
+            ? `[b]${block.text}[/b]`
+            : `[size=${bbcodeHeadingSizes[block.level]}][b]${block.text}[/b][/size]`;
+        case "line":
+          return block.text;
+        default:
+          return "";
+      }
+    },
+  );
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const renderHtml = (blocks: ReportBlock[]): string =>
+  groupItems(
+    blocks.filter((block) => block.kind !== "break"),
+    (items) => `<ul>\n${items.map((text) => `  <li>${escapeHtml(text)}</li>`).join("\n")}\n</ul>`,
+    (block) => {
+      switch (block.kind) {
+        case "heading":
+          return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+        case "line":
+          return `<p>${escapeHtml(block.text)}</p>`;
+        default:
+          return "";
+      }
+    },
+  );
+
+const renderText = (blocks: ReportBlock[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.kind) {
+        case "heading":
+          // Underline the two top levels the way plain-text documents do
+          return block.level === 3
+            ? block.text
+            : `${block.text}\n${(block.level === 1 ? "=" : "-").repeat(block.text.length)}`;
+        case "line":
+          return block.text;
+        case "item":
+          return `  * ${block.text}`;
+        default:
+          return "";
+      }
+    })
+    .join("\n");
+
+export const exportFormats = ["emoji", "markdown", "discord", "bbcode", "html", "text", "spreadsheet"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+export type Exporter = {
+  id: ExportFormat;
+  name: string;
+  description: string;
+  // One string per message; only Discord ever needs more than one
+  render: (input: ReportInput) => string[];
+};
+
+export const exporters: Exporter[] = [
+  {
+    id: "emoji",
+    name: "Emoji Markdown",
+    description: "The campaign's default clipboard template, or the built-in emoji layout",
+    render: (input) => {
+      const output = renderTemplate(defaultClipboardTemplate, buildTemplateContext(input));
+      return [output.ok ? output.text : ""];
+    },
+  },
+  {
+    id: "markdown",
+    name: "Markdown",
+    description: "Plain Markdown without emoji",
+    render: (input) => [renderMarkdown(buildReport(input), false)],
+  },
+  {
+    id: "discord",
+    name: "Discord",
+    description: `Markdown in messages of up to ${DISCORD_MESSAGE_LIMIT.toLocaleString()} characters`,
+    render: (input) => renderDiscord(buildReport(input)),
+  },
+  {
+    id: "bbcode",
+    name: "BBCode",
+    description: "For forum posts",
+    render: (input) => [renderBbcode(buildReport(input))],
+  },
+  {
+    id: "html",
+    name: "HTML",
+    description: "Markup for web pages and blogs",
+    render: (input) => [renderHtml(buildReport(input))],
+  },
+  {
+    id: "text",
+    name: "Plain Text",
+    description: "No markup at all",
+    render: (input) => [renderText(buildReport(input))],
+  },
+  {
+    id: "spreadsheet",
+    name: "Spreadsheet",
+    description: "The XP matrix, tab-separated to paste straight into cells",
+    render: (input) => [toCsv(resultMatrix(input), "\t")],
+  },
+];
+
+export const findExporter = (id: ExportFormat): Exporter =>
+  exporters.find((exporter) => exporter.id === id) ?? exporters[0];
+
+export const exportReport = (format: ExportFormat, input: ReportInput): string[] =>
+  findExporter(format).render(input);
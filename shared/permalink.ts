@@ -0,0 +1,94 @@
+// A permalink carries a whole calculation in one query parameter, so anyone
+// can open the same party, monsters and ruleset without an account and fork
+// it from there. Fields left at their defaults are dropped before encoding to
+// keep links short, and filled back in when the link is opened.
+
+import { calculateTreasureValue } from "./calculator";
+import { calculateRequestSchema, type CalculatorInput } from "./schema";
+import { primevalArcanaRuleset, resolveRuleset, type RulesetDefinition } from "./rulesets";
+
+// The query parameter Home reads a shared calculation from
+export const PERMALINK_PARAM = "calc";
+
+export type SharedCalculation = {
+  input: CalculatorInput;
+  ruleset: RulesetDefinition;
+};
+
+type CharacterFields = CalculatorInput["characters"][number];
+type MonsterFields = CalculatorInput["monsters"][number];
+
+const characterDefaults: Partial<CharacterFields> = {
+  name: "",
+  role: "pc",
+  status: "present",
+  modifier: 0,
+  treasureShare: 1,
+};
+
+const monsterDefaults: Partial<MonsterFields> = {
+  name: "",
+  modifier: 0,
+  specialAbilities: 0,
+  count: 1,
+};
+
+const dropDefaults = <T extends object>(value: T, defaults: Partial<T>): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(value).filter(
+      ([key, field]) => field !== undefined && field !== defaults[key as keyof T],
+    ),
+  ) as Partial<T>;
+
+// URL-safe base64 of the UTF-8 text, so names like "Ælfric" survive
+const toBase64Url = (text: string): string => {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+export const encodePermalink = (input: CalculatorInput, ruleset: RulesetDefinition): string => {
+  const { id, name, ...rules } = ruleset;
+  const isCustom = id === "custom";
+  return toBase64Url(
+    JSON.stringify({
+      // Roster links belong to the sharer's campaign, so they stay behind
+      characters: input.characters.map(({ rosterCharacterId, ...char }) => dropDefaults(char, characterDefaults)),
+      monsters: input.monsters.map((monster) => dropDefaults(monster, monsterDefaults)),
+      treasure: input.treasure && calculateTreasureValue(input.treasure) > 0 ? input.treasure : undefined,
+      ruleset: id === primevalArcanaRuleset.id ? undefined : id,
+      customRuleset: isCustom ? rules : undefined,
+    }),
+  );
+};
+
+/**
+ * Read a calculation back out of a permalink. Returns null for anything that
+ * is not a well-formed link, e.g. one cut short when it was pasted.
+ */
+export const decodePermalink = (encoded: string): SharedCalculation | null => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return null;
+  }
+  if (typeof payload !== "object" || payload === null) return null;
+
+  const { characters, monsters, ...rest } = payload as Record<string, unknown>;
+  if (!Array.isArray(characters) || !Array.isArray(monsters)) return null;
+
+  const parsed = calculateRequestSchema.safeParse({
+    ...rest,
+    characters: characters.map((char) => ({ ...characterDefaults, ...char })),
+    monsters: monsters.map((monster) => ({ ...monsterDefaults, ...monster })),
+  });
+  if (!parsed.success) return null;
+
+  const { ruleset, customRuleset, ...input } = parsed.data;
+  return { input, ruleset: resolveRuleset(ruleset, customRuleset) };
+};
@@ -0,0 +1,93 @@
+// The printable session report: a calculation laid out as tables of the party,
+// the monsters and each character's XP, with the totals above them. The print
+// view and the PDF download both draw from these, so a handout matches the
+// screen.
+
+import { formatHitDice, formatPercent, calculateTreasureValue } from "./calculator";
+import { characterStatusNames, participantRoleNames } from "./rulesets";
+import { resultMatrix } from "./csv";
+import type { ReportInput } from "./export";
+
+export type ReportTable = {
+  title: string;
+  head: string[];
+  body: string[][];
+  // A totals row under the body
+  foot?: string[];
+};
+
+export type ReportTotal = {
+  label: string;
+  value: string;
+};
+
+const xp = (value: number) => `${Math.round(value).toLocaleString()}`;
+
+export const reportTotals = ({ treasure, result, ruleset }: ReportInput): ReportTotal[] => [
+  { label: "Ruleset", value: ruleset.name },
+  { label: "Total Party HD", value: result.totalPartyHitDice.toFixed(2) },
+  { label: "Total Monster HD", value: result.totalMonsterHitDice.toFixed(2) },
+  { label: "Monster XP", value: xp(result.monsterXp) },
+  ...(treasure && calculateTreasureValue(treasure) > 0
+    ? [
+        { label: "Treasure", value: `${result.treasureValue.toLocaleString()} gp` },
+        { label: "Treasure XP", value: xp(result.treasureXp) },
+      ]
+    : []),
+  { label: "Total XP", value: xp(result.totalXp) },
+  { label: "Base XP Per Character", value: xp(result.xpPerCharacter) },
+];
+
+export const reportTables = (input: ReportInput): ReportTable[] => {
+  const { characters, monsters, result } = input;
+  const nameOf = (id: number) => characters.find((char) => char.id === id)?.name || `Character ${id}`;
+
+  const party: ReportTable = {
+    title: "Party",
+    head: ["Name", "Role", "Status", "HD", "Effective HD", "Share", "XP Bonus"],
+    body: characters.map((char) => {
+      const charXp = result.characterXp.find((entry) => entry.characterId === char.id);
+      return [
+        char.name || `Character ${char.id}`,
+        participantRoleNames[char.role],
+        characterStatusNames[char.status],
+        formatHitDice(char.hitDice, char.modifier),
+        char.effectiveHitDice.toFixed(2),
+        String(char.treasureShare),
+        charXp?.xpBonusPercent ? formatPercent(charXp.xpBonusPercent) : "",
+      ];
+    }),
+  };
+
+  const monsterTable: ReportTable = {
+    title: "Monsters",
+    head: ["Name", "HD", "Count", "Effective HD", "Fought By"],
+    body: monsters.map((monster) => [
+      monster.name || `Monster ${monster.id}`,
+      formatHitDice(monster.hitDice, monster.modifier, monster.specialAbilities),
+      String(monster.count),
+      monster.effectiveHitDice.toFixed(2),
+      monster.participants ? monster.participants.map(nameOf).join(", ") : "Whole party",
+    ]),
+  };
+
+  // The same matrix the CSV export writes, with a totals row for the XP columns
+  const [head, ...rows] = resultMatrix(input);
+  const xpColumns = head.length - 4;
+  const breakdown: ReportTable = {
+    title: "Character XP",
+    head: head.map(String),
+    body: rows.map((row) => row.map((cell) => (typeof cell === "number" ? cell.toLocaleString() : cell))),
+    foot: [
+      "Total",
+      "",
+      "",
+      "",
+      ...Array.from({ length: xpColumns }, (_, index) =>
+        rows.reduce((sum, row) => sum + (Number(row[index + 4]) || 0), 0).toLocaleString(),
+      ),
+    ],
+  };
+
+  return [party, monsterTable, breakdown];
+};
@@ -0,0 +1,212 @@
+// XP rulesets: the knobs that differ between the systems our tables play.
+// The engine reads every number it used to hardcode from one of these.
+
+// How a character's share of a monster is scaled once they outrank it
+export type AdjustmentCurve =
+  // monsterHD / characterHD, the Primeval Arcana rule
+  | { kind: "ratio" }
+  // A fixed factor per whole HD the character is above the monster; the
+  // last step applies to any larger gap
+  | { kind: "stepped"; steps: number[] }
+  // Everyone keeps their full share
+  | { kind: "none" };
+
+export type RoundingPolicy = "floor" | "round" | "ceil";
+
+// Who a party member is, which decides how big a cut of monster XP they take
+export const participantRoles = ["pc", "henchman", "hireling", "npc"] as const;
+export type ParticipantRole = (typeof participantRoles)[number];
+
+export const participantRoleNames: Record<ParticipantRole, string> = {
+  pc: "PC",
+  henchman: "Henchman",
+  hireling: "Hireling",
+  npc: "NPC",
+};
+
+// How a character came out of the session
+export const characterStatuses = ["present", "dead", "fled", "unconscious"] as const;
+export type CharacterStatus = (typeof characterStatuses)[number];
+
+export const characterStatusNames: Record<CharacterStatus, string> = {
+  present: "Present",
+  dead: "Dead",
+  fled: "Fled",
+  unconscious: "Unconscious",
+};
+
+// What happens to the share of a character who is not simply present:
+// they keep it (a dead character's heir inherits it), lose it, or hand it
+// back so the rest of the party splits it
+export const shareHandlings = ["keep", "forfeit", "pool"] as const;
+export type ShareHandling = (typeof shareHandlings)[number];
+
+export const shareHandlingNames: Record<ShareHandling, string> = {
+  keep: "Keep (heir inherits)",
+  forfeit: "Forfeit",
+  pool: "Return to pool",
+};
+
+// One row of a monster XP table: monsters of at least `hitDice` HD are
+// worth `xp`, or `plusXp` when they have a positive modifier (e.g. 3+1) or
+// a negative one on the next row up (e.g. 4-1), plus `abilityXp` / `plusAbilityXp` for every special ability asterisk
+export type MonsterXpRow = {
+  hitDice: number;
+  xp: number;
+  plusXp: number;
+  abilityXp: number;
+  plusAbilityXp: number;
+};
+
+export type MonsterXpRule =
+  // baseXpPerHd for every effective hit die
+  | { kind: "perHitDie" }
+  // Look each monster up by HD, ignoring baseXpPerHd
+  | { kind: "table"; rows: MonsterXpRow[] };
+
+export type RulesetRules = {
+  baseXpPerHd: number;
+  // A +1/-1 modifier is worth this fraction of a hit die
+  modifierWeight: number;
+  monsterXp: MonsterXpRule;
+  adjustment: AdjustmentCurve;
+  rounding: RoundingPolicy;
+  // Shares of monster XP by role, where a PC takes one full share
+  shareWeights: Record<ParticipantRole, number>;
+  // Whether party members on a zero share still count as a head when the
+  // XP is divided, leaving their cut unclaimed
+  zeroSharesCountTowardHeadcount: boolean;
+  statusHandling: Record<Exclude<CharacterStatus, "present">, ShareHandling>;
+  // The least XP a monster of under one hit die is worth, so a kobold at ½
+  // HD or a 1 hp rat with a penalty never rounds down to nothing
+  subHitDieXpFloor: number;
+};
+
+export type RulesetDefinition = RulesetRules & {
+  id: string;
+  name: string;
+};
+
+// The fallen's share goes to the survivors, those who fled get nothing and
+// the knocked out keep theirs
+const defaultStatusHandling: RulesetRules["statusHandling"] = {
+  dead: "pool",
+  fled: "forfeit",
+  unconscious: "keep",
+};
+
+// Retainers take a half share, hirelings work for pay alone
+const halfShareRetainers: Record<ParticipantRole, number> = {
+  pc: 1,
+  henchman: 0.5,
+  hireling: 0,
+  npc: 1,
+};
+
+export const primevalArcanaRuleset: RulesetDefinition = {
+  id: "primeval-arcana",
+  name: "Primeval Arcana",
+  baseXpPerHd: 100,
+  modifierWeight: 0.25,
+  monsterXp: { kind: "perHitDie" },
+  adjustment: { kind: "ratio" },
+  rounding: "floor",
+  shareWeights: halfShareRetainers,
+  zeroSharesCountTowardHeadcount: false,
+  statusHandling: defaultStatusHandling,
+  subHitDieXpFloor: 10,
+};
+
+// The table the original Angular service used: 80% of the XP for a monster
+// one HD below the party, down to 20% at four or more
+export const steppedOdndRuleset: RulesetDefinition = {
+  id: "odnd-stepped",
+  name: "oD&D Stepped",
+  baseXpPerHd: 100,
+  modifierWeight: 0.25,
+  monsterXp: { kind: "perHitDie" },
+  adjustment: { kind: "stepped", steps: [0.8, 0.6, 0.4, 0.2] },
+  rounding: "floor",
+  shareWeights: halfShareRetainers,
+  zeroSharesCountTowardHeadcount: true,
+  statusHandling: defaultStatusHandling,
+  subHitDieXpFloor: 10,
+};
+
+// Classic B/X monster XP by hit dice and special abilities, split evenly
+// with no level adjustment
+export const bxRuleset: RulesetDefinition = {
+  id: "bx",
+  name: "B/X",
+  baseXpPerHd: 100,
+  modifierWeight: 0.25,
+  monsterXp: {
+    kind: "table",
+    rows: [
+      { hitDice: 0, xp: 5, plusXp: 5, abilityXp: 1, plusAbilityXp: 1 },
+      { hitDice: 1, xp: 10, plusXp: 15, abilityXp: 3, plusAbilityXp: 4 },
+      { hitDice: 2, xp: 20, plusXp: 25, abilityXp: 15, plusAbilityXp: 25 },
+      { hitDice: 3, xp: 35, plusXp: 50, abilityXp: 30, plusAbilityXp: 50 },
+      { hitDice: 4, xp: 75, plusXp: 125, abilityXp: 50, plusAbilityXp: 75 },
+      { hitDice: 5, xp: 175, plusXp: 225, abilityXp: 125, plusAbilityXp: 175 },
+      { hitDice: 6, xp: 275, plusXp: 350, abilityXp: 225, plusAbilityXp: 300 },
+      { hitDice: 7, xp: 450, plusXp: 550, abilityXp: 400, plusAbilityXp: 475 },
+      { hitDice: 8, xp: 650, plusXp: 775, abilityXp: 550, plusAbilityXp: 625 },
+      { hitDice: 9, xp: 900, plusXp: 900, abilityXp: 700, plusAbilityXp: 700 },
+      { hitDice: 11, xp: 1100, plusXp: 1100, abilityXp: 800, plusAbilityXp: 800 },
+      { hitDice: 13, xp: 1350, plusXp: 1350, abilityXp: 950, plusAbilityXp: 950 },
+      { hitDice: 17, xp: 2000, plusXp: 2000, abilityXp: 1150, plusAbilityXp: 1150 },
+      { hitDice: 21, xp: 2500, plusXp: 2500, abilityXp: 2000, plusAbilityXp: 2000 },
+    ],
+  },
+  adjustment: { kind: "none" },
+  rounding: "floor",
+  shareWeights: halfShareRetainers,
+  zeroSharesCountTowardHeadcount: true,
+  statusHandling: defaultStatusHandling,
+  // The "less than 1" line of the B/X table
+  subHitDieXpFloor: 5,
+};
+
+export const builtInRulesets: RulesetDefinition[] = [
+  primevalArcanaRuleset,
+  steppedOdndRuleset,
+  bxRuleset,
+];
+
+// Campaigns pick one of the presets, or "custom" to define their own rules
+export const rulesetIds = ["primeval-arcana", "odnd-stepped", "bx", "custom"] as const;
+export type RulesetId = (typeof rulesetIds)[number];
+
+export const rulesetNames: Record<RulesetId, string> = {
+  "primeval-arcana": primevalArcanaRuleset.name,
+  "odnd-stepped": steppedOdndRuleset.name,
+  bx: bxRuleset.name,
+  custom: "Custom",
+};
+
+/**
+ * Resolve a campaign's ruleset. A custom ruleset without rules falls back
+ * to Primeval Arcana, as does an unknown id. Custom rules saved before a
+ * setting existed pick it up from Primeval Arcana.
+ */
+export const resolveRuleset = (
+  id: string | null | undefined,
+  customRules?: RulesetRules | null,
+): RulesetDefinition => {
+  if (id === "custom" && customRules) {
+    return { ...primevalArcanaRuleset, ...customRules, id: "custom", name: rulesetNames.custom };
+  }
+  return builtInRulesets.find((ruleset) => ruleset.id === id) ?? primevalArcanaRuleset;
+};
+
+export const applyRounding = (value: number, rounding: RoundingPolicy): number => {
+  switch (rounding) {
+    case "round":
+      return Math.round(value);
+    case "ceil":
+      return Math.ceil(value);
+    default:
+      return Math.floor(value);
+  }
+};
@@ -1,6 +1,22 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, real, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { Calculation, CalculationResult, Character, Treasure } from "./calculator";
+import type { Encounter, Session, SessionResult } from "./session";
+import type { AdvancementTable } from "./advancement";
+import { checkTemplate, type ClipboardTemplate } from "./template";
+import {
+  characterStatuses,
+  participantRoles,
+  primevalArcanaRuleset,
+  rulesetIds,
+  shareHandlings,
+  type CharacterStatus,
+  type ParticipantRole,
+  type RulesetId,
+  type RulesetRules,
+} from "./rulesets";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -8,10 +24,514 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3, "Username must be at least 3 characters"),
+  password: (schema) => schema.min(8, "Password must be at least 8 characters"),
+}).pick({
   username: true,
   password: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a user: never the password hash
+export type PublicUser = Omit<User, "password">;
+
+// A campaign groups the calculations of one table, with the players on its roster
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  ruleset: text("ruleset").$type<RulesetId>().notNull().default("primeval-arcana"),
+  // The campaign's own rules, used when ruleset is "custom"
+  customRuleset: jsonb("custom_ruleset").$type<RulesetRules>(),
+  members: jsonb("members").$type<string[]>().notNull().default([]),
+  // Campaign-specific classes on top of the built-in advancement tables
+  advancementTables: jsonb("advancement_tables").$type<AdvancementTable[]>().notNull().default([]),
+  // The group's own layouts for copying results, on top of the built-in formats
+  clipboardTemplates: jsonb("clipboard_templates").$type<ClipboardTemplate[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const advancementLevelSchema = z.object({
+  xp: z.number().int().min(0, "XP thresholds cannot be negative"),
+  hitDice: z.number().int().min(1, "Hit dice must be at least 1"),
+  modifier: z.number().int(),
+});
+
+export const advancementTableSchema = z.object({
+  id: z.string().trim().min(1, "Class id is required"),
+  name: z.string().trim().min(1, "Class name is required"),
+  levels: z
+    .array(advancementLevelSchema)
+    .min(1, "Add at least one level")
+    .refine(
+      (levels) => levels.every((lvl, i) => i === 0 || lvl.xp > levels[i - 1].xp),
+      "XP thresholds must increase level by level",
+    ),
+});
+
+export const clipboardTemplateSchema = z.object({
+  id: z.string().trim().min(1, "Template id is required"),
+  name: z.string().trim().min(1, "Template name is required"),
+  body: z
+    .string()
+    .min(1, "Template is empty")
+    .superRefine((body, ctx) => {
+      const error = checkTemplate(body);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }),
+});
+
+const shareWeight = z.number().min(0, "Share weights cannot be negative");
+
+export const rulesetRulesSchema = z.object({
+  baseXpPerHd: z.number().positive("Base XP per HD must be positive"),
+  modifierWeight: z.number().min(0, "Modifier weight cannot be negative"),
+  monsterXp: z.discriminatedUnion("kind", [
+    z.object({ kind: z.literal("perHitDie") }),
+    z.object({
+      kind: z.literal("table"),
+      rows: z
+        .array(
+          z.object({
+            hitDice: z.number().min(0),
+            xp: z.number().int().min(0),
+            plusXp: z.number().int().min(0),
+            abilityXp: z.number().int().min(0),
+            plusAbilityXp: z.number().int().min(0),
+          }),
+        )
+        .min(1, "Add at least one row")
+        // The engine takes the last row at or below a monster's hit dice
+        .refine((rows) => rows.every((row, i) => i === 0 || row.hitDice > rows[i - 1].hitDice), {
+          message: "Rows must go up in hit dice",
+        }),
+    }),
+  ]),
+  adjustment: z.discriminatedUnion("kind", [
+    z.object({ kind: z.literal("ratio") }),
+    z.object({
+      kind: z.literal("stepped"),
+      steps: z.array(z.number().min(0).max(1)).min(1, "Add at least one step"),
+    }),
+    z.object({ kind: z.literal("none") }),
+  ]),
+  rounding: z.enum(["floor", "round", "ceil"]),
+  shareWeights: z
+    .object({
+      pc: shareWeight,
+      henchman: shareWeight,
+      hireling: shareWeight,
+      npc: shareWeight,
+    })
+    .default(primevalArcanaRuleset.shareWeights),
+  zeroSharesCountTowardHeadcount: z.boolean().default(primevalArcanaRuleset.zeroSharesCountTowardHeadcount),
+  statusHandling: z
+    .object({
+      dead: z.enum(shareHandlings),
+      fled: z.enum(shareHandlings),
+      unconscious: z.enum(shareHandlings),
+    })
+    .default(primevalArcanaRuleset.statusHandling),
+  subHitDieXpFloor: z
+    .number()
+    .min(0, "XP floor cannot be negative")
+    .default(primevalArcanaRuleset.subHitDieXpFloor),
+});
+
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  name: (schema) => schema.trim().min(1, "Campaign name is required"),
+  ruleset: z.enum(rulesetIds).default("primeval-arcana"),
+  customRuleset: rulesetRulesSchema.nullable().optional(),
+  members: z.array(z.string().trim().min(1, "Member names cannot be empty")).default([]),
+  advancementTables: z.array(advancementTableSchema).default([]),
+  clipboardTemplates: z.array(clipboardTemplateSchema).default([]),
+}).pick({
+  name: true,
+  ruleset: true,
+  customRuleset: true,
+  members: true,
+  advancementTables: true,
+  clipboardTemplates: true,
+});
+
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type Campaign = typeof campaigns.$inferSelect;
+
+// Persistent characters on a campaign's roster; their XP lives in the ledger
+export const rosterCharacters = pgTable("roster_characters", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  campaignId: integer("campaign_id")
+    .notNull()
+    .references(() => campaigns.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  hitDice: real("hit_dice").notNull(),
+  modifier: integer("modifier").notNull().default(0),
+  // Advancement table id, built-in or from the campaign; null for no class
+  characterClass: text("character_class"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRosterCharacterSchema = createInsertSchema(rosterCharacters, {
+  name: (schema) => schema.trim().min(1, "Character name is required"),
+  hitDice: (schema) => schema.positive("Hit dice must be above 0"),
+}).pick({
+  name: true,
+  hitDice: true,
+  modifier: true,
+  characterClass: true,
+});
+
+export type InsertRosterCharacter = z.infer<typeof insertRosterCharacterSchema>;
+export type RosterCharacter = typeof rosterCharacters.$inferSelect;
+// A roster entry with its running ledger total
+export type RosterCharacterWithXp = RosterCharacter & { totalXp: number };
+
+// A GM's own library of monster templates, copied into encounters on demand
+export const bestiaryMonsters = pgTable("bestiary_monsters", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  hitDice: real("hit_dice").notNull(),
+  modifier: integer("modifier").notNull().default(0),
+  specialAbilities: integer("special_abilities").notNull().default(0),
+  notes: text("notes").notNull().default(""),
+  // The book or supplement the stats come from
+  source: text("source").notNull().default(""),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertBestiaryMonsterSchema = createInsertSchema(bestiaryMonsters, {
+  name: (schema) => schema.trim().min(1, "Monster name is required"),
+  hitDice: (schema) => schema.positive("Hit dice must be above 0"),
+  specialAbilities: (schema) => schema.int().min(0, "Special abilities cannot be negative"),
+}).pick({
+  name: true,
+  hitDice: true,
+  modifier: true,
+  specialAbilities: true,
+  notes: true,
+  source: true,
+});
+
+export type InsertBestiaryMonster = z.infer<typeof insertBestiaryMonsterSchema>;
+
+// Copies catalogue entries into the bestiary by name
+export const importCatalogueSchema = z.object({
+  names: z.array(z.string()).min(1, "Pick at least one monster"),
+});
+
+export type ImportCatalogueInput = z.infer<typeof importCatalogueSchema>;
+export type BestiaryMonster = typeof bestiaryMonsters.$inferSelect;
+
+// A saved calculation keeps the engine result as a snapshot, with the party
+// and the encounter stored row by row next to it
+export const calculations = pgTable("calculations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  campaignId: integer("campaign_id")
+    .notNull()
+    .references(() => campaigns.id, { onDelete: "cascade" }),
+  date: timestamp("date").notNull().defaultNow(),
+  awardedAt: timestamp("awarded_at"),
+  treasure: jsonb("treasure").$type<Treasure>(),
+  result: jsonb("result").$type<CalculationResult>().notNull(),
+});
+
+export const calculationCharacters = pgTable("calculation_characters", {
+  id: serial("id").primaryKey(),
+  calculationId: integer("calculation_id")
+    .notNull()
+    .references(() => calculations.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  rosterCharacterId: integer("roster_character_id").references(() => rosterCharacters.id, {
+    onDelete: "set null",
+  }),
+  name: text("name").notNull(),
+  hitDice: real("hit_dice").notNull(),
+  modifier: integer("modifier").notNull(),
+  role: text("role").$type<ParticipantRole>().notNull().default("pc"),
+  status: text("status").$type<CharacterStatus>().notNull().default("present"),
+  treasureShare: real("treasure_share").notNull().default(1),
+  primeRequisite: integer("prime_requisite"),
+  xpBonus: real("xp_bonus"),
+  effectiveHitDice: real("effective_hit_dice").notNull(),
+});
+
+export const calculationMonsters = pgTable("calculation_monsters", {
+  id: serial("id").primaryKey(),
+  calculationId: integer("calculation_id")
+    .notNull()
+    .references(() => calculations.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  name: text("name").notNull(),
+  hitDice: real("hit_dice").notNull(),
+  modifier: integer("modifier").notNull(),
+  specialAbilities: integer("special_abilities").notNull().default(0),
+  count: integer("count").notNull(),
+  // Null when the whole party fought this monster
+  participants: jsonb("participants").$type<number[]>(),
+  effectiveHitDice: real("effective_hit_dice").notNull(),
+});
+
+// A saved session is stored whole: its encounters nest their own monsters,
+// so the party and encounters sit next to the result as snapshots
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  campaignId: integer("campaign_id")
+    .notNull()
+    .references(() => campaigns.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  date: timestamp("date").notNull().defaultNow(),
+  awardedAt: timestamp("awarded_at"),
+  characters: jsonb("characters").$type<Character[]>().notNull(),
+  encounters: jsonb("encounters").$type<Encounter[]>().notNull(),
+  result: jsonb("result").$type<SessionResult>().notNull(),
+});
+
+// One ledger line per XP award; calculation and session awards point back
+// at their source
+export const xpAwards = pgTable("xp_awards", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  rosterCharacterId: integer("roster_character_id")
+    .notNull()
+    .references(() => rosterCharacters.id, { onDelete: "cascade" }),
+  calculationId: integer("calculation_id").references(() => calculations.id, {
+    onDelete: "set null",
+  }),
+  sessionId: integer("session_id").references(() => sessions.id, {
+    onDelete: "set null",
+  }),
+  amount: integer("amount").notNull(),
+  note: text("note").notNull().default(""),
+  awardedAt: timestamp("awarded_at").notNull().defaultNow(),
+});
+
+export const insertXpAwardSchema = createInsertSchema(xpAwards, {
+  amount: (schema) => schema.int("XP must be a whole number"),
+}).pick({
+  amount: true,
+  note: true,
+});
+
+export type InsertXpAward = z.infer<typeof insertXpAwardSchema>;
+export type XpAward = typeof xpAwards.$inferSelect;
+
+export const usersRelations = relations(users, ({ many }) => ({
+  campaigns: many(campaigns),
+  calculations: many(calculations),
+  sessions: many(sessions),
+  bestiaryMonsters: many(bestiaryMonsters),
+}));
+
+export const campaignsRelations = relations(campaigns, ({ one, many }) => ({
+  user: one(users, {
+    fields: [campaigns.userId],
+    references: [users.id],
+  }),
+  calculations: many(calculations),
+  sessions: many(sessions),
+  rosterCharacters: many(rosterCharacters),
+}));
+
+export const rosterCharactersRelations = relations(rosterCharacters, ({ one, many }) => ({
+  campaign: one(campaigns, {
+    fields: [rosterCharacters.campaignId],
+    references: [campaigns.id],
+  }),
+  xpAwards: many(xpAwards),
+}));
+
+export const xpAwardsRelations = relations(xpAwards, ({ one }) => ({
+  rosterCharacter: one(rosterCharacters, {
+    fields: [xpAwards.rosterCharacterId],
+    references: [rosterCharacters.id],
+  }),
+  calculation: one(calculations, {
+    fields: [xpAwards.calculationId],
+    references: [calculations.id],
+  }),
+  session: one(sessions, {
+    fields: [xpAwards.sessionId],
+    references: [sessions.id],
+  }),
+}));
+
+export const calculationsRelations = relations(calculations, ({ one, many }) => ({
+  user: one(users, {
+    fields: [calculations.userId],
+    references: [users.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [calculations.campaignId],
+    references: [campaigns.id],
+  }),
+  characters: many(calculationCharacters),
+  monsters: many(calculationMonsters),
+}));
+
+export const bestiaryMonstersRelations = relations(bestiaryMonsters, ({ one }) => ({
+  user: one(users, {
+    fields: [bestiaryMonsters.userId],
+    references: [users.id],
+  }),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [sessions.campaignId],
+    references: [campaigns.id],
+  }),
+}));
+
+export const calculationCharactersRelations = relations(calculationCharacters, ({ one }) => ({
+  calculation: one(calculations, {
+    fields: [calculationCharacters.calculationId],
+    references: [calculations.id],
+  }),
+}));
+
+export const calculationMonstersRelations = relations(calculationMonsters, ({ one }) => ({
+  calculation: one(calculations, {
+    fields: [calculationMonsters.calculationId],
+    references: [calculations.id],
+  }),
+}));
+
+export type CalculationRow = typeof calculations.$inferSelect;
+export type CalculationCharacterRow = typeof calculationCharacters.$inferSelect;
+export type CalculationMonsterRow = typeof calculationMonsters.$inferSelect;
+
+// A calculation as the API and the Saved panel see it
+export type SavedCalculation = Calculation & {
+  id: number;
+  userId: number;
+  campaignId: number;
+  date: Date;
+  awardedAt: Date | null;
+};
+
+export type SessionRow = typeof sessions.$inferSelect;
+
+// A session as the API and the Sessions page see it
+export type SavedSession = Session & {
+  id: number;
+  userId: number;
+  campaignId: number;
+  name: string;
+  date: Date;
+  awardedAt: Date | null;
+};
+
+// Schemas for calculator input, shared by the form and the API
+export const characterSchema = z.object({
+  name: z.string().optional(),
+  rosterCharacterId: z.number().int().optional(),
+  role: z.enum(participantRoles).default("pc"),
+  status: z.enum(characterStatuses).default("present"),
+  hitDice: z.number().positive("Hit dice must be above 0"),
+  modifier: z.number().int("Modifier must be a whole number"),
+  treasureShare: z.number().min(0, "Treasure share cannot be negative").default(1),
+  primeRequisite: z
+    .number()
+    .int()
+    .min(3, "Prime requisite must be 3-18")
+    .max(18, "Prime requisite must be 3-18")
+    .optional(),
+  xpBonus: z.number().min(-100, "Bonus must be -100% to +100%").max(100, "Bonus must be -100% to +100%").optional(),
+});
+
+export const monsterSchema = z.object({
+  name: z.string().optional(),
+  hitDice: z.number().positive("Hit dice must be above 0"),
+  modifier: z.number().int("Modifier must be a whole number"),
+  specialAbilities: z.number().int().min(0, "Special abilities cannot be negative").default(0),
+  count: z.number().int("Count must be a whole number").min(1, "Count must be at least 1"),
+  participants: z.array(z.number().int().positive()).min(1, "Pick at least one character").optional(),
+});
+
+const gpValue = z.number().min(0, "Value cannot be negative");
+
+export const treasureSchema = z.object({
+  coins: z.object({
+    cp: gpValue,
+    sp: gpValue,
+    ep: gpValue,
+    gp: gpValue,
+    pp: gpValue,
+  }),
+  gems: gpValue,
+  jewelry: gpValue,
+  magicItems: gpValue,
+  xpPerGp: z.number().min(0, "XP per GP cannot be negative"),
+  split: z.enum(["even", "shares"]),
+});
+
+export const calculatorSchema = z.object({
+  characters: z.array(characterSchema).min(1, "Add at least one character"),
+  monsters: z.array(monsterSchema).min(1, "Add at least one monster"),
+  treasure: treasureSchema.nullable().default(null),
+});
+
+export type CalculatorInput = z.infer<typeof calculatorSchema>;
+
+// The public calculate endpoint takes the ruleset with the request, since
+// there is no campaign to read it from
+export const calculateRequestSchema = calculatorSchema.extend({
+  ruleset: z.enum(rulesetIds).optional(),
+  customRuleset: rulesetRulesSchema.optional(),
+});
+
+// Saving a calculation files it under one of the GM's campaigns
+export const saveCalculationSchema = calculatorSchema.extend({
+  campaignId: z.number().int().positive("Choose a campaign"),
+});
+
+export type SaveCalculationInput = z.infer<typeof saveCalculationSchema>;
+
+// Participants are ids of the session's party members
+export const encounterSchema = z.object({
+  name: z.string().optional(),
+  participants: z.array(z.number().int().positive()).min(1, "Pick at least one character").optional(),
+  monsters: z.array(monsterSchema).min(1, "Add at least one monster"),
+  treasure: treasureSchema.nullable().default(null),
+});
+
+export const sessionCalculatorSchema = z.object({
+  characters: z.array(characterSchema).min(1, "Add at least one character"),
+  encounters: z.array(encounterSchema).min(1, "Add at least one encounter"),
+});
+
+export type SessionCalculatorInput = z.infer<typeof sessionCalculatorSchema>;
+
+export const calculateSessionRequestSchema = sessionCalculatorSchema.extend({
+  ruleset: z.enum(rulesetIds).optional(),
+  customRuleset: rulesetRulesSchema.optional(),
+});
+
+export const saveSessionSchema = sessionCalculatorSchema.extend({
+  campaignId: z.number().int().positive("Choose a campaign"),
+  name: z.string().trim().min(1, "Session name is required"),
+});
+
+export type SaveSessionInput = z.infer<typeof saveSessionSchema>;
@@ -0,0 +1,140 @@
+// A session is a whole evening of play: several fights in order, each with
+// its own monsters and whichever part of the party was there. Every
+// encounter runs through the single calculation engine and the session adds
+// the results up per character.
+
+import {
+  calculateResult,
+  toCharacters,
+  toMonsters,
+  type CalculationResult,
+  type Character,
+  type CharacterInput,
+  type Monster,
+  type MonsterInput,
+  type Treasure,
+} from "./calculator";
+import { primevalArcanaRuleset, type RulesetRules } from "./rulesets";
+
+export type EncounterInput = {
+  name?: string;
+  // Ids of the party members in this fight; the whole party when omitted
+  participants?: number[];
+  monsters: MonsterInput[];
+  treasure?: Treasure | null;
+};
+
+export type Encounter = {
+  id: number;
+  name: string;
+  participants?: number[];
+  monsters: Monster[];
+  treasure: Treasure | null;
+};
+
+export type EncounterResult = {
+  encounterId: number;
+  encounterName: string;
+  result: CalculationResult;
+};
+
+// A character's XP summed over every encounter they took part in
+export type SessionCharacterXp = {
+  characterId: number;
+  encountersFought: number;
+  monsterXp: number;
+  treasureXp: number;
+  bonusXp: number;
+  forfeitedXp: number;
+  totalXp: number;
+};
+
+export type SessionResult = {
+  monsterXp: number;
+  treasureXp: number;
+  totalXp: number;
+  characterXp: SessionCharacterXp[];
+  // One full result per encounter, in play order, for drilling down
+  encounters: EncounterResult[];
+};
+
+export type Session = {
+  characters: Character[];
+  encounters: Encounter[];
+  result: SessionResult;
+};
+
+export const toEncounters = (
+  encounters: EncounterInput[],
+  rules: RulesetRules = primevalArcanaRuleset,
+): Encounter[] => {
+  return encounters.map((encounter, index) => ({
+    id: index + 1,
+    name: encounter.name || `Encounter ${index + 1}`,
+    participants: encounter.participants,
+    monsters: toMonsters(encounter.monsters, rules),
+    treasure: encounter.treasure ?? null,
+  }));
+};
+
+// The party members who were in an encounter
+export const encounterParty = (encounter: Encounter, characters: Character[]): Character[] => {
+  const { participants } = encounter;
+  return participants ? characters.filter((char) => participants.includes(char.id)) : characters;
+};
+
+/**
+ * Run each encounter on its own, dividing its XP among only the characters
+ * who were there, then total every character's XP across the session.
+ */
+export const calculateSessionResult = (
+  characters: Character[],
+  encounters: Encounter[],
+  rules: RulesetRules = primevalArcanaRuleset,
+): SessionResult => {
+  const encounterResults = encounters.map((encounter) => ({
+    encounterId: encounter.id,
+    encounterName: encounter.name,
+    result: calculateResult(encounterParty(encounter, characters), encounter.monsters, rules, encounter.treasure),
+  }));
+
+  const characterXp = characters.map((char) => {
+    const fought = encounterResults.flatMap(({ result }) =>
+      result.characterXp.filter((charXp) => charXp.characterId === char.id),
+    );
+    return {
+      characterId: char.id,
+      encountersFought: fought.length,
+      monsterXp: fought.reduce((total, charXp) => total + charXp.adjustedXp, 0),
+      treasureXp: fought.reduce((total, charXp) => total + charXp.treasureXp, 0),
+      bonusXp: fought.reduce((total, charXp) => total + charXp.bonusXp, 0),
+      forfeitedXp: fought.reduce((total, charXp) => total + charXp.forfeitedXp, 0),
+      totalXp: fought.reduce((total, charXp) => total + charXp.totalXp, 0),
+    };
+  });
+
+  const monsterXp = encounterResults.reduce((total, { result }) => total + result.monsterXp, 0);
+  const treasureXp = encounterResults.reduce((total, { result }) => total + result.treasureXp, 0);
+
+  return {
+    monsterXp,
+    treasureXp,
+    totalXp: monsterXp + treasureXp,
+    characterXp,
+    encounters: encounterResults,
+  };
+};
+
+export const calculateSession = (
+  party: CharacterInput[],
+  encounters: EncounterInput[],
+  rules: RulesetRules = primevalArcanaRuleset,
+): Session => {
+  const characters = toCharacters(party, rules);
+  const normalized = toEncounters(encounters, rules);
+  return {
+    characters,
+    encounters: normalized,
+    result: calculateSessionResult(characters, normalized, rules),
+  };
+};
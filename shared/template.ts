@@ -0,0 +1,366 @@
+// Clipboard templates: plain text with {{placeholders}}, {{#each list}} loops
+// and {{#if field}} / {{#unless field}} blocks with an optional {{else}}.
+// Inside a loop the current item's fields come first, then everything
+// around it, so {{name}} is the character's while {{ruleset}} still works.
+// A block tag alone on its line takes the whole line with it, so templates
+// can put one tag per line without leaving blank lines behind.
+
+import { calculateMonsterXp, formatHitDice, formatPercent, formatSignedXp } from "./calculator";
+import { characterStatusNames, participantRoleNames } from "./rulesets";
+import type { ReportInput } from "./export";
+
+// A named layout saved on a campaign
+export type ClipboardTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+type TemplateValue = string | number | boolean | null | TemplateScope | TemplateValue[];
+export type TemplateScope = { [field: string]: TemplateValue };
+
+export type TemplateOutput = { ok: true; text: string } | { ok: false; error: string };
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "value"; path: string }
+  | { kind: "each"; path: string; body: TemplateNode[] }
+  | { kind: "if"; path: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type OpenBlock = {
+  tag: "each" | "if" | "unless";
+  path: string;
+  body: TemplateNode[];
+  otherwise: TemplateNode[];
+  inElse: boolean;
+};
+
+const TAG = /\{\{\s*([#/]?)\s*(.*?)\s*\}\}/g;
+const STANDALONE_TAG = /^[ \t]*(\{\{\s*(?:[#/][^}]*|else\s*)\}\})[ \t]*\r?\n/gm;
+const blockTags = ["each", "if", "unless"] as const;
+
+// The tree of a template, or what is wrong with it
+const parseTemplate = (source: string): TemplateNode[] | string => {
+  const text = source.replace(STANDALONE_TAG, "$1");
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.otherwise : top.body) : root;
+  };
+
+  let last = 0;
+  for (const match of Array.from(text.matchAll(TAG))) {
+    const index = match.index ?? 0;
+    if (index > last) current().push({ kind: "text", text: text.slice(last, index) });
+    last = index + match[0].length;
+
+    const [, sigil, content] = match;
+    if (sigil === "#") {
+      const [tag, path] = content.split(/\s+/);
+      const blockTag = blockTags.find((name) => name === tag);
+      if (!blockTag || !path) return `Unknown block {{#${content}}}; use #each, #if or #unless with a field`;
+      stack.push({ tag: blockTag, path, body: [], otherwise: [], inElse: false });
+    } else if (sigil === "/") {
+      const open = stack.pop();
+      if (!open) return `{{/${content}}} has no matching {{#${content}}}`;
+      if (open.tag !== content) return `{{/${content}}} closes {{#${open.tag} ${open.path}}}`;
+      current().push(
+        open.tag === "each"
+          ? { kind: "each", path: open.path, body: open.body }
+          : { kind: "if", path: open.path, negate: open.tag === "unless", body: open.body, otherwise: open.otherwise },
+      );
+    } else if (content === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.tag === "each" || top.inElse) return "{{else}} only goes inside {{#if}} or {{#unless}}, once";
+      top.inElse = true;
+    } else if (!content) {
+      return "Empty placeholder {{}}";
+    } else {
+      current().push({ kind: "value", path: content });
+    }
+  }
+  if (last < text.length) current().push({ kind: "text", text: text.slice(last) });
+
+  const unclosed = stack[stack.length - 1];
+  return unclosed ? `{{#${unclosed.tag} ${unclosed.path}}} is never closed` : root;
+};
+
+// Look a dotted path up from the innermost scope out; undefined when no
+// scope has it. Only a context's own fields count, so names like
+// "constructor" are not found on Object.prototype.
+const lookup = (scopes: TemplateScope[], path: string): TemplateValue | undefined => {
+  const [first, ...rest] = path.split(".");
+  const scope = [...scopes].reverse().find((candidate) => Object.hasOwn(candidate, first));
+  if (!scope) return undefined;
+  return rest.reduce<TemplateValue | undefined>((value, field) => {
+    if (value === null || value === undefined || typeof value !== "object" || Array.isArray(value)) return undefined;
+    return Object.hasOwn(value, field) ? value[field] : undefined;
+  }, scope[first]);
+};
+
+const isTruthy = (value: TemplateValue | undefined): boolean =>
+  Array.isArray(value) ? value.length > 0 : !!value;
+
+const renderNodes = (nodes: TemplateNode[], scopes: TemplateScope[]): string => {
+  return nodes
+    .map((node) => {
+      if (node.kind === "text") return node.text;
+
+      const value = lookup(scopes, node.path);
+      if (value === undefined) throw new Error(`Unknown field {{${node.path}}}`);
+
+      if (node.kind === "each") {
+        if (!Array.isArray(value)) throw new Error(`{{#each ${node.path}}} needs a list`);
+        return value
+          .map((item, index) => {
+            const itemScope = typeof item === "object" && item !== null && !Array.isArray(item) ? item : {};
+            return renderNodes(node.body, [...scopes, { "@number": index + 1, ...itemScope }]);
+          })
+          .join("");
+      }
+      if (node.kind === "if") {
+        return renderNodes(isTruthy(value) !== node.negate ? node.body : node.otherwise, scopes);
+      }
+
+      if (typeof value === "object" && value !== null) {
+        throw new Error(`{{${node.path}}} is a list or group; loop over it with {{#each}} or pick a field`);
+      }
+      return typeof value === "number" ? value.toLocaleString() : String(value ?? "");
+    })
+    .join("");
+};
+
+/**
+ * Fill a template in from a context. Mistakes in the template, like an
+ * unclosed block or a misspelt field, come back as an error to show the
+ * person editing it rather than as half-rendered text.
+ */
+export const renderTemplate = (source: string, context: TemplateScope): TemplateOutput => {
+  const nodes = parseTemplate(source);
+  if (typeof nodes === "string") return { ok: false, error: nodes };
+  try {
+    return { ok: true, text: renderNodes(nodes, [context]) };
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+};
+
+// Why a template cannot be parsed, or null when it can. Field names are only
+// checked once there is a calculation to fill it in from.
+export const checkTemplate = (source: string): string | null => {
+  const nodes = parseTemplate(source);
+  return typeof nodes === "string" ? nodes : null;
+};
+
+// The dead, each with the line that remembers them. The clipboard template and
+// the other export formats all word the memorial from this.
+export const fallenCharacters = ({ characters, result }: Pick<ReportInput, "characters" | "result">) =>
+  characters
+    .filter((char) => char.status === "dead")
+    .map((char) => {
+      const charXp = result.characterXp.find((xp) => xp.characterId === char.id);
+      const share =
+        charXp?.shareHandling === "keep"
+          ? `Their ${charXp.totalXp.toLocaleString()} XP passes to their heir.`
+          : charXp?.shareHandling === "forfeit"
+            ? "Their share is forfeit."
+            : "Their share goes to those who carry on.";
+      const hd = formatHitDice(char.hitDice, char.modifier);
+      return { name: char.name, hd, share, epitaph: `${char.name} (${hd} HD), fell in battle. ${share}` };
+    });
+
+/**
+ * The fields a template can use for one calculation. Numbers are left as
+ * numbers and formatted when they are written out; anything that needs a
+ * sign or a fixed number of decimals is formatted here.
+ */
+export const buildTemplateContext = ({
+  characters,
+  monsters,
+  treasure,
+  result,
+  ruleset,
+  levelUps,
+}: ReportInput): TemplateScope => {
+  const coins = treasure
+    ? (["pp", "gp", "ep", "sp", "cp"] as const)
+        .filter((coin) => treasure.coins[coin] > 0)
+        .map((coin) => `${treasure.coins[coin].toLocaleString()} ${coin}`)
+        .join(", ")
+    : "";
+
+  return {
+    ruleset: ruleset.name,
+    adventurers: characters.length,
+    monsterCount: monsters.reduce((sum, m) => sum + m.count, 0),
+    partyHd: result.totalPartyHitDice.toFixed(2),
+    monsterHd: result.totalMonsterHitDice.toFixed(2),
+    characters: characters.map((char) => ({
+      name: char.name,
+      hd: formatHitDice(char.hitDice, char.modifier),
+      role: participantRoleNames[char.role],
+      isPc: char.role === "pc",
+      status: characterStatusNames[char.status],
+      present: char.status === "present",
+    })),
+    monsters: monsters.map((monster) => ({
+      name: monster.name,
+      hd: formatHitDice(monster.hitDice, monster.modifier, monster.specialAbilities),
+      count: monster.count,
+      xp: calculateMonsterXp(monster, ruleset),
+    })),
+    treasure: treasure && {
+      coins,
+      gems: treasure.gems,
+      jewelry: treasure.jewelry,
+      magicItems: treasure.magicItems,
+      value: result.treasureValue,
+      xpPerGp: treasure.xpPerGp,
+      splitByShares: treasure.split === "shares",
+    },
+    monsterXp: result.monsterXp,
+    treasureXp: result.treasureXp,
+    totalXp: result.totalXp,
+    xpPerCharacter: Math.round(result.xpPerCharacter),
+    characterXp: result.characterXp.flatMap((charXp) => {
+      const character = characters.find((c) => c.id === charXp.characterId);
+      if (!character) return [];
+      const levelUp = levelUps.find((lvl) => lvl.characterId === charXp.characterId);
+      return [
+        {
+          name: character.name,
+          hd: formatHitDice(character.hitDice, character.modifier),
+          status: characterStatusNames[character.status],
+          totalXp: Math.round(charXp.totalXp),
+          treasureXp: charXp.treasureXp,
+          hasBonus: charXp.xpBonusPercent !== 0,
+          bonusPercent: formatPercent(charXp.xpBonusPercent),
+          bonusXp: formatSignedXp(charXp.bonusXp),
+          forfeit: charXp.shareHandling === "forfeit",
+          pooled: charXp.shareHandling === "pool",
+          forfeitedXp: formatSignedXp(-charXp.forfeitedXp),
+          levelUp: levelUp ? { from: levelUp.fromLevel, to: levelUp.toLevel } : null,
+          monsterContributions: charXp.monsterContributions.flatMap((contrib) => {
+            const monster = monsters.find((m) => m.id === contrib.monsterId);
+            if (!monster) return [];
+            return [
+              {
+                monster: monster.name,
+                participated: contrib.participated !== false,
+                xp: Math.round(contrib.adjustedXp),
+                adjusted: contrib.adjustmentFactor < 1.0,
+                factor: contrib.adjustmentFactor.toFixed(2),
+              },
+            ];
+          }),
+        },
+      ];
+    }),
+    fallen: fallenCharacters({ characters, result }),
+  };
+};
+
+// Every field a template can use, for the editor's reference list
+export const templateFields: { field: string; description: string }[] = [
+  { field: "ruleset", description: "Name of the ruleset" },
+  { field: "adventurers", description: "Number of characters" },
+  { field: "monsterCount", description: "Number of monsters, counting every one in a group" },
+  { field: "partyHd / monsterHd", description: "Total effective hit dice of each side" },
+  { field: "#each characters", description: "name, hd, role, isPc, status, present" },
+  { field: "#each monsters", description: "name, hd, count, xp" },
+  {
+    field: "treasure",
+    description: "Empty without loot; coins, gems, jewelry, magicItems, value, xpPerGp, splitByShares",
+  },
+  { field: "monsterXp / treasureXp / totalXp", description: "XP for the whole party" },
+  { field: "xpPerCharacter", description: "Base XP per character" },
+  {
+    field: "#each characterXp",
+    description:
+      "name, hd, status, totalXp, treasureXp, hasBonus, bonusPercent, bonusXp, forfeit, pooled, forfeitedXp, levelUp.from, levelUp.to",
+  },
+  { field: "#each monsterContributions", description: "Inside characterXp: monster, participated, xp, adjusted, factor" },
+  { field: "#each fallen", description: "The dead: name, hd, share, epitaph" },
+  { field: "@number", description: "Inside a loop: 1 for the first item, 2 for the next…" },
+];
+
+// The classic emoji Markdown layout
+export const defaultClipboardTemplate = `# 🧙‍♂️ Primeval Arcana XP Calculator 🧙‍♂️
+
+## ⚔️ Encounter Summary ⚔️
+{{adventurers}} adventurers vs {{monsterCount}} monsters
+Ruleset: {{ruleset}}
+
+### 👥 Party
+{{#each characters}}
+- {{name}} ({{hd}} HD{{#unless isPc}}, {{role}}{{/unless}}{{#unless present}}, {{status}}{{/unless}})
+{{/each}}
+Total Party HD: {{partyHd}}
+
+### 👹 Monsters
+{{#each monsters}}
+- {{count}}× {{name}} ({{hd}} HD)
+{{/each}}
+Total Monster HD: {{monsterHd}}
+
+{{#if treasure}}
+### 💎 Treasure
+{{#if treasure.coins}}
+- Coins: {{treasure.coins}}
+{{/if}}
+{{#if treasure.gems}}
+- Gems: {{treasure.gems}} gp
+{{/if}}
+{{#if treasure.jewelry}}
+- Jewelry: {{treasure.jewelry}} gp
+{{/if}}
+{{#if treasure.magicItems}}
+- Magic Items: {{treasure.magicItems}} gp
+{{/if}}
+Total Treasure: {{treasure.value}} gp at {{treasure.xpPerGp}} XP/gp{{#if treasure.splitByShares}} (split by shares){{/if}}
+
+{{/if}}
+## 💰 XP Summary 💰
+Monster XP: {{monsterXp}} XP
+{{#if treasure}}
+Treasure XP: {{treasureXp}} XP
+{{/if}}
+Total XP: {{totalXp}} XP
+Base XP Per Character: {{xpPerCharacter}} XP
+
+## 📊 Character XP Breakdown 📊
+{{#each characterXp}}
+### {{name}} - {{totalXp}} XP 🎯
+{{#if levelUp}}
+⬆️ Level up! {{levelUp.from}} → {{levelUp.to}}
+{{/if}}
+{{#each monsterContributions}}
+{{#if participated}}
+- {{monster}}: {{xp}} XP{{#if adjusted}} (adjusted: ×{{factor}}){{/if}}
+{{else}}
+- {{monster}}: did not take part
+{{/if}}
+{{/each}}
+{{#if treasure}}
+- Treasure: {{treasureXp}} XP
+{{/if}}
+{{#if hasBonus}}
+- Prime Requisite ({{bonusPercent}}): {{bonusXp}} XP
+{{/if}}
+{{#if forfeit}}
+- {{status}}, share forfeit: {{forfeitedXp}} XP
+{{/if}}
+{{#if pooled}}
+- {{status}}, share returned to the party
+{{/if}}
+
+{{/each}}
+{{#if fallen}}
+## 🕯️ In Memoriam 🕯️
+{{#each fallen}}
+- {{epitaph}}
+{{/each}}
+
+{{/if}}
+`;